@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ClientType" AS ENUM ('WEB_APP', 'CHROME_EXTENSION', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "userAgent" TEXT,
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "clientType" "ClientType" NOT NULL DEFAULT 'UNKNOWN',
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3);
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT,
+    "targetUserId" TEXT,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "metadata" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_targetUserId_createdAt_idx" ON "audit_events"("targetUserId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actorId_createdAt_idx" ON "audit_events"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_createdAt_idx" ON "audit_events"("action", "createdAt");
+
+-- Audit events are append-only
+CREATE FUNCTION "audit_events_block_changes"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_events_append_only"
+    BEFORE UPDATE OR DELETE ON "audit_events"
+    FOR EACH ROW EXECUTE FUNCTION "audit_events_block_changes"();
@@ -0,0 +1,17 @@
+-- Backfill metadata for videos that already have summaries, using the newest summary's details
+INSERT INTO "video_metadata" ("id", "videoId", "title", "channelName", "duration", "thumbnailUrl", "createdAt", "updatedAt")
+SELECT DISTINCT ON ("videoId")
+    md5(random()::text || "videoId"),
+    "videoId",
+    "videoTitle",
+    "channelName",
+    "videoDuration",
+    "thumbnailUrl",
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "summaries"
+ORDER BY "videoId", "createdAt" DESC
+ON CONFLICT ("videoId") DO NOTHING;
+
+-- AddForeignKey
+ALTER TABLE "summaries" ADD CONSTRAINT "summaries_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "video_metadata"("videoId") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "completionTokens" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "costUsd" DECIMAL(12,6) NOT NULL DEFAULT 0,
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "promptTokens" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "llm_usage" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "plan" "UserPlan" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "chunkIndex" INTEGER,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "costUsd" DECIMAL(12,6) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "llm_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "llm_usage_summaryId_idx" ON "llm_usage"("summaryId");
+
+-- CreateIndex
+CREATE INDEX "llm_usage_userId_createdAt_idx" ON "llm_usage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "llm_usage_createdAt_idx" ON "llm_usage"("createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "keyPointTimestamps" JSONB;
+
+-- AlterTable
+ALTER TABLE "summary_cache" ADD COLUMN     "keyPointTimestamps" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "chapters" JSONB,
+ADD COLUMN     "chaptersStatus" "SummaryStatus";
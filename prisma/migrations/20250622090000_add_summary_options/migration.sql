@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "audience" TEXT NOT NULL DEFAULT 'general',
+ADD COLUMN     "focus" TEXT,
+ADD COLUMN     "length" TEXT NOT NULL DEFAULT 'standard',
+ADD COLUMN     "style" TEXT NOT NULL DEFAULT 'narrative';
+
+-- AlterTable
+ALTER TABLE "summary_cache" ADD COLUMN     "options" TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "language" TEXT NOT NULL DEFAULT 'en',
+ADD COLUMN     "transcriptLanguage" TEXT,
+ADD COLUMN     "translatedFromId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "summaries" ADD CONSTRAINT "summaries_translatedFromId_fkey" FOREIGN KEY ("translatedFromId") REFERENCES "summaries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
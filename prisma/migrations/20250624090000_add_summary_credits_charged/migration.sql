@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "summaries" ADD COLUMN     "creditsCharged" INTEGER NOT NULL DEFAULT 0;
+
+-- Summaries still in flight were charged the default per-summary cost
+UPDATE "summaries" SET "creditsCharged" = 1 WHERE "fromCache" = false AND "status" IN ('PENDING', 'PROCESSING');
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "webhook_deliveries" DROP COLUMN "responseBody";
@@ -8,7 +8,12 @@ import { prisma } from "./config/database";
 import routes from "./routes";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 import { authService } from "./services/auth";
-import { summaryService } from "./services/summary";
+import { summaryService, SUMMARY_JOB_TYPE } from "./services/summary";
+import { chapterService, CHAPTERS_JOB_TYPE } from "./services/chapters";
+import { lockoutService } from "./services/lockout";
+import { jobQueue } from "./services/jobQueue";
+import { webhookService, WEBHOOK_JOB_TYPE } from "./services/webhook";
+import { creditService, LOW_CREDITS_JOB_TYPE } from "./services/credit";
 
 const app = express();
 
@@ -60,7 +65,7 @@ app.use(
     },
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Accept", "Origin"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Accept", "Origin", "X-Client-Type", "X-API-Key"],
     exposedHeaders: ["Content-Range", "X-Content-Range"],
     maxAge: 86400, // 24 hours
   })
@@ -97,6 +102,7 @@ const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}, starting graceful shutdown`);
 
   try {
+    await jobQueue.stop();
     await prisma.$disconnect();
     logger.info("Database connection closed");
     process.exit(0);
@@ -115,6 +121,8 @@ const runCleanupTasks = async () => {
     logger.info("Running cleanup tasks");
     await authService.cleanupExpiredTokens();
     await summaryService.cleanupOldSummaries();
+    await lockoutService.cleanupOldAttempts();
+    await jobQueue.cleanupOldJobs();
     logger.info("Cleanup tasks completed");
   } catch (error) {
     logger.error("Cleanup tasks failed", { error });
@@ -126,12 +134,45 @@ if (config.server.nodeEnv === "production") {
   setInterval(runCleanupTasks, 24 * 60 * 60 * 1000);
 }
 
+// Background job handlers
+jobQueue.registerHandler<{ summaryId: string }>(SUMMARY_JOB_TYPE, {
+  run: ({ summaryId }) => summaryService.processSummary(summaryId),
+  onFailure: ({ summaryId }, error) =>
+    summaryService.failSummary(summaryId, error),
+});
+
+jobQueue.registerHandler<{ summaryId: string; credits?: number }>(
+  CHAPTERS_JOB_TYPE,
+  {
+    run: ({ summaryId }) => chapterService.processChapters(summaryId),
+    onFailure: ({ summaryId, credits }, error) =>
+      chapterService.failChapters(summaryId, error, credits ?? 0),
+  }
+);
+
+jobQueue.registerHandler<{ userId: string; creditsRemaining: number }>(
+  LOW_CREDITS_JOB_TYPE,
+  {
+    run: ({ userId, creditsRemaining }) =>
+      creditService.notifyLowCredits(userId, creditsRemaining),
+  }
+);
+
+jobQueue.registerHandler<{ deliveryId: string }>(WEBHOOK_JOB_TYPE, {
+  run: ({ deliveryId }) => webhookService.deliver(deliveryId),
+  onFailure: ({ deliveryId }) => webhookService.markDeliveryFailed(deliveryId),
+});
+
 // Start server
 const startServer = async () => {
   try {
     await prisma.$connect();
     logger.info("Database connected successfully");
 
+    if (config.jobs.workerEnabled) {
+      jobQueue.start();
+    }
+
     const server = app.listen(process.env.PORT, () => {
       logger.info(`🚀 Knugget API server running on port ${process.env.PORT}`);
       logger.info(`📡 Environment: ${config.server.nodeEnv}`);
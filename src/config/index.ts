@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import dotenv from "dotenv";
 import { z } from "zod";
 
@@ -25,11 +26,74 @@ const configSchema = z.object({
   REFRESH_TOKEN_SECRET: z.string().min(32),
   REFRESH_TOKEN_EXPIRES_IN: z.string().default("7d"),
 
+  // Password hashing
+  BCRYPT_ROUNDS: z.string().transform(Number).default("12"),
+  PASSWORD_RESET_TOKEN_TTL_MINUTES: z.string().transform(Number).default("60"),
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS: z.string().transform(Number).default("24"),
+
+  // Two-factor authentication
+  TWO_FACTOR_ENCRYPTION_KEY: z.string().min(32).optional(),
+  TWO_FACTOR_ISSUER: z.string().default("Knugget AI"),
+  TWO_FACTOR_CHALLENGE_TTL: z.string().default("5m"),
+
+  // Brute-force protection
+  LOGIN_MAX_FAILED_ATTEMPTS: z.string().transform(Number).default("5"),
+  LOGIN_LOCKOUT_MINUTES: z.string().transform(Number).default("15"),
+  LOGIN_MAX_DELAY_SECONDS: z.string().transform(Number).default("30"),
+  LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: z.string().transform(Number).default("20"),
+  LOGIN_IP_WINDOW_MINUTES: z.string().transform(Number).default("15"),
+
   // OpenAI
-  OPENAI_API_KEY: z.string().min(1),
+  OPENAI_API_KEY: z.string().min(1).optional(),
   OPENAI_MODEL: z.string().default("gpt-4-turbo-preview"),
   OPENAI_MAX_TOKENS: z.string().transform(Number).default("4000"),
 
+  // LLM provider selection (per-plan values override the default)
+  LLM_PROVIDER: z.enum(["openai", "local", "fake"]).default("openai"),
+  LLM_PROVIDER_FREE: z.enum(["openai", "local", "fake"]).optional(),
+  LLM_PROVIDER_PREMIUM: z.enum(["openai", "local", "fake"]).optional(),
+  LLM_MODEL_FREE: z.string().optional(),
+  LLM_MODEL_PREMIUM: z.string().optional(),
+
+  // Local OpenAI-compatible server (Ollama, llama.cpp, vLLM)
+  LOCAL_LLM_BASE_URL: z.string().url().default("http://localhost:11434/v1"),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  LOCAL_LLM_MODEL: z.string().default("llama3.1"),
+  LOCAL_LLM_TIMEOUT_MS: z.string().transform(Number).default("120000"),
+
+  // Chunked transcripts: parallel calls and per-call retries
+  LLM_CHUNK_CONCURRENCY: z.string().transform(Number).default("4"),
+  LLM_MAX_RETRIES: z.string().transform(Number).default("3"),
+  LLM_RETRY_BASE_DELAY_MS: z.string().transform(Number).default("1000"),
+  LLM_RETRY_MAX_DELAY_MS: z.string().transform(Number).default("30000"),
+
+  // Extra or overriding model prices, USD per 1M tokens: {"model":{"input":1,"output":2}}
+  LLM_PRICING: z
+    .string()
+    .default("{}")
+    .transform((value, ctx) => {
+      let parsedValue: unknown;
+      try {
+        parsedValue = JSON.parse(value || "{}");
+      } catch {
+        parsedValue = null;
+      }
+
+      const pricing = z
+        .record(z.object({ input: z.number(), output: z.number() }))
+        .safeParse(parsedValue);
+
+      if (!pricing.success) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "LLM_PRICING must map model names to { input, output }",
+        });
+        return z.NEVER;
+      }
+
+      return pricing.data;
+    }),
+
   // Email (Optional)
   SMTP_HOST: z.string().optional(),
   SMTP_PORT: z.string().transform(Number).optional(),
@@ -37,6 +101,9 @@ const configSchema = z.object({
   SMTP_PASS: z.string().optional(),
   FROM_EMAIL: z.string().email().optional(),
   FROM_NAME: z.string().optional(),
+  EMAIL_TRANSPORT: z.enum(["smtp", "file", "memory"]).optional(),
+  EMAIL_OUTBOX_DIR: z.string().default("logs/outbox"),
+  APP_URL: z.string().url().default("https://knugget-client.vercel.app"),
 
   // CORS
   ALLOWED_ORIGINS: z
@@ -56,8 +123,64 @@ const configSchema = z.object({
 
   // Credits
   CREDITS_PER_SUMMARY: z.string().transform(Number).default("1"),
+  CREDITS_PER_CHAT_QUESTION: z.string().transform(Number).default("1"),
+  CREDITS_PER_CHAPTERS: z.string().transform(Number).default("1"),
+  CREDITS_PER_TRANSLATION: z.string().transform(Number).default("1"),
   FREE_PLAN_MONTHLY_CREDITS: z.string().transform(Number).default("10"),
   PREMIUM_PLAN_MONTHLY_CREDITS: z.string().transform(Number).default("1000"),
+  LOW_CREDITS_THRESHOLD: z.string().transform(Number).default("2"),
+
+  // Shared summary cache
+  SUMMARY_CACHE_ENABLED: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  SUMMARY_CACHE_CREDIT_POLICY: z.enum(["charge", "free"]).default("charge"),
+
+  // Background jobs
+  JOB_WORKER_ENABLED: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  JOB_CONCURRENCY: z.string().transform(Number).default("2"),
+  JOB_POLL_INTERVAL_MS: z.string().transform(Number).default("1000"),
+  JOB_MAX_ATTEMPTS: z.string().transform(Number).default("3"),
+  JOB_LOCK_TIMEOUT_MINUTES: z.string().transform(Number).default("15"),
+
+  // Webhooks
+  WEBHOOK_ENCRYPTION_KEY: z.string().min(32).optional(),
+  WEBHOOK_TIMEOUT_MS: z.string().transform(Number).default("10000"),
+  WEBHOOK_MAX_ATTEMPTS: z.string().transform(Number).default("8"),
+}).superRefine((env, ctx) => {
+  if (env.NODE_ENV !== "production") {
+    return;
+  }
+
+  // Stored secrets must not depend on JWT_SECRET, or rotating it would make them unreadable
+  if (!env.TWO_FACTOR_ENCRYPTION_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["TWO_FACTOR_ENCRYPTION_KEY"],
+      message: "TWO_FACTOR_ENCRYPTION_KEY is required in production",
+    });
+  }
+
+  if (!env.WEBHOOK_ENCRYPTION_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["WEBHOOK_ENCRYPTION_KEY"],
+      message: "WEBHOOK_ENCRYPTION_KEY is required in production",
+    });
+  }
+
+  // Without a transport, account emails would be silently dropped
+  if (!env.EMAIL_TRANSPORT && !env.SMTP_HOST) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["EMAIL_TRANSPORT"],
+      message: "Set SMTP_HOST or EMAIL_TRANSPORT in production",
+    });
+  }
 });
 
 const parsed = configSchema.safeParse(process.env);
@@ -68,6 +191,12 @@ if (!parsed.success) {
   process.exit(1);
 }
 
+// Outside production, missing encryption keys are derived from JWT_SECRET, one per purpose
+const deriveDevelopmentKey = (label: string): string =>
+  Buffer.from(
+    crypto.hkdfSync("sha256", parsed.data.JWT_SECRET, "", label, 32)
+  ).toString("hex");
+
 export const config = {
   server: {
     nodeEnv: parsed.data.NODE_ENV,
@@ -88,11 +217,50 @@ export const config = {
     refreshSecret: parsed.data.REFRESH_TOKEN_SECRET,
     refreshExpiresIn: parsed.data.REFRESH_TOKEN_EXPIRES_IN,
   },
+  auth: {
+    bcryptRounds: parsed.data.BCRYPT_ROUNDS,
+    passwordResetTtlMinutes: parsed.data.PASSWORD_RESET_TOKEN_TTL_MINUTES,
+    emailVerificationTtlHours: parsed.data.EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+    twoFactorEncryptionKey:
+      parsed.data.TWO_FACTOR_ENCRYPTION_KEY ??
+      deriveDevelopmentKey("knugget:two-factor-secrets"),
+    twoFactorIssuer: parsed.data.TWO_FACTOR_ISSUER,
+    twoFactorChallengeTtl: parsed.data.TWO_FACTOR_CHALLENGE_TTL,
+    maxFailedLogins: parsed.data.LOGIN_MAX_FAILED_ATTEMPTS,
+    lockoutMinutes: parsed.data.LOGIN_LOCKOUT_MINUTES,
+    maxLoginDelaySeconds: parsed.data.LOGIN_MAX_DELAY_SECONDS,
+    maxFailedLoginsPerIp: parsed.data.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP,
+    ipWindowMinutes: parsed.data.LOGIN_IP_WINDOW_MINUTES,
+  },
   openai: {
     apiKey: parsed.data.OPENAI_API_KEY,
     model: parsed.data.OPENAI_MODEL,
     maxTokens: parsed.data.OPENAI_MAX_TOKENS,
   },
+  llm: {
+    provider: parsed.data.LLM_PROVIDER,
+    plans: {
+      FREE: {
+        provider: parsed.data.LLM_PROVIDER_FREE,
+        model: parsed.data.LLM_MODEL_FREE,
+      },
+      PREMIUM: {
+        provider: parsed.data.LLM_PROVIDER_PREMIUM,
+        model: parsed.data.LLM_MODEL_PREMIUM,
+      },
+    },
+    local: {
+      baseUrl: parsed.data.LOCAL_LLM_BASE_URL,
+      apiKey: parsed.data.LOCAL_LLM_API_KEY,
+      model: parsed.data.LOCAL_LLM_MODEL,
+      timeoutMs: parsed.data.LOCAL_LLM_TIMEOUT_MS,
+    },
+    pricing: parsed.data.LLM_PRICING,
+    chunkConcurrency: parsed.data.LLM_CHUNK_CONCURRENCY,
+    maxRetries: parsed.data.LLM_MAX_RETRIES,
+    retryBaseDelayMs: parsed.data.LLM_RETRY_BASE_DELAY_MS,
+    retryMaxDelayMs: parsed.data.LLM_RETRY_MAX_DELAY_MS,
+  },
   email: {
     host: parsed.data.SMTP_HOST,
     port: parsed.data.SMTP_PORT,
@@ -100,6 +268,9 @@ export const config = {
     pass: parsed.data.SMTP_PASS,
     fromEmail: parsed.data.FROM_EMAIL,
     fromName: parsed.data.FROM_NAME,
+    transport: parsed.data.EMAIL_TRANSPORT,
+    outboxDir: parsed.data.EMAIL_OUTBOX_DIR,
+    appUrl: parsed.data.APP_URL,
   },
   cors: {
     allowedOrigins: parsed.data.ALLOWED_ORIGINS.split(",").map((origin) =>
@@ -117,8 +288,30 @@ export const config = {
   },
   credits: {
     perSummary: parsed.data.CREDITS_PER_SUMMARY,
+    perChatQuestion: parsed.data.CREDITS_PER_CHAT_QUESTION,
+    perChapters: parsed.data.CREDITS_PER_CHAPTERS,
+    perTranslation: parsed.data.CREDITS_PER_TRANSLATION,
     freeMonthly: parsed.data.FREE_PLAN_MONTHLY_CREDITS,
     premiumMonthly: parsed.data.PREMIUM_PLAN_MONTHLY_CREDITS,
+    lowThreshold: parsed.data.LOW_CREDITS_THRESHOLD,
+  },
+  summaryCache: {
+    enabled: parsed.data.SUMMARY_CACHE_ENABLED,
+    chargeOnHit: parsed.data.SUMMARY_CACHE_CREDIT_POLICY === "charge",
+  },
+  jobs: {
+    workerEnabled: parsed.data.JOB_WORKER_ENABLED,
+    concurrency: parsed.data.JOB_CONCURRENCY,
+    pollIntervalMs: parsed.data.JOB_POLL_INTERVAL_MS,
+    maxAttempts: parsed.data.JOB_MAX_ATTEMPTS,
+    lockTimeoutMinutes: parsed.data.JOB_LOCK_TIMEOUT_MINUTES,
+  },
+  webhooks: {
+    encryptionKey:
+      parsed.data.WEBHOOK_ENCRYPTION_KEY ??
+      deriveDevelopmentKey("knugget:webhook-secrets"),
+    timeoutMs: parsed.data.WEBHOOK_TIMEOUT_MS,
+    maxAttempts: parsed.data.WEBHOOK_MAX_ATTEMPTS,
   },
 };
 
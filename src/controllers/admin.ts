@@ -0,0 +1,353 @@
+import { Response } from 'express';
+import { adminService } from '../services/admin';
+import { userService } from '../services/user';
+import { auditService } from '../services/audit';
+import { summaryCacheService } from '../services/summaryCache';
+import { usageService } from '../services/usage';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  AuditQueryParams,
+  UsageQueryParams,
+  UserQueryParams,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { logger } from '../config/logger';
+import { getAuditContext } from '../utils/request';
+
+export class AdminController {
+  // List users with filters
+  listUsers = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    // Safely parse query parameters with defaults
+    const queryParams: UserQueryParams = {
+      page: req.query.page ? Math.max(1, parseInt(req.query.page as string) || 1) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20)) : 20,
+      search: req.query.search ? String(req.query.search) : undefined,
+      plan: req.query.plan as any || undefined,
+      emailVerified: req.query.emailVerified !== undefined ? req.query.emailVerified === 'true' : undefined,
+      sortBy: (req.query.sortBy as any) || 'createdAt',
+      sortOrder: (req.query.sortOrder as any) || 'desc',
+    };
+
+    const result = await adminService.listUsers(queryParams);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Get a user with summaries and usage
+  getUser = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    const result = await adminService.getUserDetail(id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Add or remove credits on a user's account
+  adjustCredits = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    const { credits, reason } = req.body;
+
+    const result = await userService.adjustCredits(
+      id,
+      credits,
+      reason,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: `Credits adjusted by ${result.data?.applied}`,
+    };
+
+    logger.info('Admin adjusted credits', {
+      adminId: req.user.id,
+      userId: id,
+      creditsApplied: result.data?.applied,
+      reason,
+      newBalance: result.data?.newBalance,
+    });
+
+    res.json(response);
+  });
+
+  // Change a user's plan
+  changePlan = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    const { plan } = req.body;
+
+    const result = await userService.upgradePlan(id, plan, getAuditContext(req));
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: `Plan changed to ${plan} successfully`,
+    };
+
+    logger.info('Admin changed user plan', {
+      adminId: req.user.id,
+      userId: id,
+      newPlan: plan,
+    });
+
+    res.json(response);
+  });
+
+  // Mark a user's email as verified
+  verifyEmail = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    await adminService.forceVerifyEmail(req.params.id, getAuditContext(req));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Email marked as verified',
+    };
+
+    res.json(response);
+  });
+
+  // Sign a user out everywhere
+  revokeSessions = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    await adminService.revokeSessions(req.params.id, getAuditContext(req));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'All sessions revoked',
+    };
+
+    res.json(response);
+  });
+
+  // Disable a user's account
+  disableUser = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await adminService.disableUser(
+      req.params.id,
+      req.body.reason,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Account disabled',
+    };
+
+    res.json(response);
+  });
+
+  // Re-enable a disabled account
+  enableUser = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await adminService.enableUser(
+      req.params.id,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Account enabled',
+    };
+
+    res.json(response);
+  });
+
+  // Query the audit log
+  getAuditEvents = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const queryParams: AuditQueryParams = {
+      page: req.query.page ? Math.max(1, parseInt(req.query.page as string) || 1) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20)) : 20,
+      action: req.query.action ? String(req.query.action) : undefined,
+      actorId: req.query.actorId ? String(req.query.actorId) : undefined,
+      targetUserId: req.query.targetUserId ? String(req.query.targetUserId) : undefined,
+      startDate: req.query.startDate ? String(req.query.startDate) : undefined,
+      endDate: req.query.endDate ? String(req.query.endDate) : undefined,
+    };
+
+    const result = await auditService.getEvents(queryParams);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Drop shared cached summaries for a video
+  invalidateSummaryCache = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await summaryCacheService.invalidate(
+      req.params.videoId,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: `Removed ${result.data?.deleted ?? 0} cached summaries`,
+    };
+
+    res.json(response);
+  });
+
+  // LLM token usage and cost across all users
+  getUsage = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await usageService.getGlobalUsage(this.parseUsageQuery(req));
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // LLM token usage and cost for one user
+  getUserUsage = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await usageService.getUserUsage(
+      req.params.id,
+      this.parseUsageQuery(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Per-call LLM usage for one summary
+  getSummaryUsage = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await usageService.getSummaryUsage(req.params.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  private parseUsageQuery(req: AuthenticatedRequest): UsageQueryParams {
+    return {
+      startDate: req.query.startDate ? String(req.query.startDate) : undefined,
+      endDate: req.query.endDate ? String(req.query.endDate) : undefined,
+    };
+  }
+}
+
+export const adminController = new AdminController();
@@ -0,0 +1,84 @@
+import { Response } from 'express';
+import { apiKeyService } from '../services/apiKey';
+import { AuthenticatedRequest, ApiResponse, CreateApiKeyDto } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { logger } from '../config/logger';
+
+export class ApiKeyController {
+  // List API keys
+  getApiKeys = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await apiKeyService.getApiKeys(req.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Create API key
+  createApiKey = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { name, scope, expiresInDays }: CreateApiKeyDto = req.body;
+
+    const result = await apiKeyService.createApiKey(req.user.id, {
+      name,
+      scope,
+      expiresInDays,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'API key created. Copy it now, it will not be shown again.',
+    };
+
+    logger.info('API key created', {
+      userId: req.user.id,
+      apiKeyId: result.data?.id,
+    });
+
+    res.status(201).json(response);
+  });
+
+  // Revoke API key
+  revokeApiKey = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    await apiKeyService.revokeApiKey(req.user.id, id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'API key revoked successfully',
+    };
+
+    logger.info('API key revoked', { userId: req.user.id, apiKeyId: id });
+    res.json(response);
+  });
+}
+
+export const apiKeyController = new ApiKeyController();
@@ -1,15 +1,27 @@
 import { Response } from 'express';
 import { authService } from '../services/auth';
-import { AuthenticatedRequest, ApiResponse, RegisterDto, LoginDto } from '../types';
+import { lockoutService } from '../services/lockout';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  RegisterDto,
+  LoginDto,
+  TwoFactorLoginDto,
+  UnlockAccountDto,
+} from '../types';
 import { catchAsync } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
+import { getAuditContext, getSessionContext } from '../utils/request';
 
 export class AuthController {
   // Register new user
   register = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     const { email, password, name }: RegisterDto = req.body;
 
-    const result = await authService.register({ email, password, name });
+    const result = await authService.register(
+      { email, password, name },
+      getSessionContext(req)
+    );
 
     const response: ApiResponse = {
       success: true,
@@ -25,7 +37,41 @@ export class AuthController {
   login = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     const { email, password }: LoginDto = req.body;
 
-    const result = await authService.login({ email, password });
+    const result = await authService.login(
+      { email, password },
+      getSessionContext(req)
+    );
+
+    const twoFactorRequired =
+      !!result.data && 'twoFactorRequired' in result.data;
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: twoFactorRequired
+        ? 'Two-factor authentication required'
+        : 'Login successful',
+    };
+
+    logger.info(
+      twoFactorRequired ? 'User login awaiting second factor' : 'User login successful',
+      {
+        email,
+        userAgent: req.get('User-Agent'),
+        origin: req.get('Origin')
+      }
+    );
+    res.json(response);
+  });
+
+  // Complete login with a two-factor code
+  loginTwoFactor = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const { challengeToken, code }: TwoFactorLoginDto = req.body;
+
+    const result = await authService.loginWithTwoFactor(
+      { challengeToken, code },
+      getSessionContext(req)
+    );
 
     const response: ApiResponse = {
       success: true,
@@ -33,8 +79,8 @@ export class AuthController {
       message: 'Login successful',
     };
 
-    logger.info('User login successful', {
-      email,
+    logger.info('User two-factor login successful', {
+      userId: result.data?.user.id,
       userAgent: req.get('User-Agent'),
       origin: req.get('Origin')
     });
@@ -45,7 +91,10 @@ export class AuthController {
   refresh = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     const { refreshToken } = req.body;
 
-    const result = await authService.refreshToken(refreshToken);
+    const result = await authService.refreshToken(
+      refreshToken,
+      getSessionContext(req)
+    );
 
     const response: ApiResponse = {
       success: true,
@@ -60,7 +109,7 @@ export class AuthController {
   logout = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     const { refreshToken } = req.body;
 
-    await authService.logout(refreshToken);
+    await authService.logout(refreshToken, getAuditContext(req));
 
     const response: ApiResponse = {
       success: true,
@@ -110,7 +159,7 @@ export class AuthController {
   resetPassword = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     const { token, password } = req.body;
 
-    await authService.resetPassword(token, password);
+    await authService.resetPassword(token, password, getAuditContext(req));
 
     const response: ApiResponse = {
       success: true,
@@ -125,7 +174,7 @@ export class AuthController {
   verifyEmail = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     const { token } = req.body;
 
-    await authService.verifyEmail(token);
+    await authService.verifyEmail(token, undefined, getAuditContext(req));
 
     const response: ApiResponse = {
       success: true,
@@ -135,11 +184,196 @@ export class AuthController {
     logger.info('Email verification completed');
     res.json(response);
   });
+
+  // Unlock account from lockout email link
+  unlockAccount = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const { token }: UnlockAccountDto = req.body;
+
+    await lockoutService.unlockAccount(token, getAuditContext(req));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Account unlocked successfully',
+    };
+
+    logger.info('Account unlocked');
+    res.json(response);
+  });
+
+  // Resend email verification
+  resendVerification = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    await authService.resendVerificationEmail(req.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Verification email sent',
+    };
+
+    logger.info('Verification email resent', { userId: req.user.id });
+    res.json(response);
+  });
+
+
+  // List active sessions
+  getSessions = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await authService.getSessions(req.user.id, req.sessionId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Revoke a single session
+  revokeSession = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    await authService.revokeSession(req.user.id, id, getAuditContext(req));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Session revoked successfully',
+    };
+
+    logger.info('Session revoked', { userId: req.user.id, sessionId: id });
+    res.json(response);
+  });
+
+  // Start two-factor enrollment
+  setupTwoFactor = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await authService.setupTwoFactor(req.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+    };
+
+    res.json(response);
+  });
+
+  // Confirm two-factor enrollment
+  confirmTwoFactor = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { code } = req.body;
+
+    const result = await authService.confirmTwoFactor(
+      req.user.id,
+      code,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Two-factor authentication enabled. Store your recovery codes safely.',
+    };
+
+    logger.info('Two-factor authentication enabled', { userId: req.user.id });
+    res.json(response);
+  });
+
+  // Disable two-factor authentication
+  disableTwoFactor = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { password, code } = req.body;
+
+    await authService.disableTwoFactor(
+      req.user.id,
+      password,
+      code,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Two-factor authentication disabled',
+    };
+
+    logger.info('Two-factor authentication disabled', { userId: req.user.id });
+    res.json(response);
+  });
+
+  // Regenerate recovery codes
+  regenerateRecoveryCodes = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { code } = req.body;
+
+    const result = await authService.regenerateRecoveryCodes(
+      req.user.id,
+      code,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Recovery codes regenerated',
+    };
+
+    res.json(response);
+  });
+
   revokeAllTokens = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       return res.status(401).json({ success: false, error: 'User not authenticated' });
     }
-    await authService.revokeAllTokens(req.user.id);
+    await authService.revokeAllTokens(req.user.id, getAuditContext(req));
     res.json({ success: true, message: 'All tokens revoked successfully' });
   });
 }
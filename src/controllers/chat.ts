@@ -0,0 +1,93 @@
+import { Response } from 'express';
+import { chatService } from '../services/chat';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  AskQuestionDto,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { logger } from '../config/logger';
+import { getAuditContext } from '../utils/request';
+
+export class ChatController {
+  // Ask a question about a summarized video
+  ask = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    const { question }: AskQuestionDto = req.body;
+
+    const result = await chatService.ask(
+      req.user.id,
+      id,
+      question.trim(),
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    logger.info('Chat question asked', {
+      userId: req.user.id,
+      summaryId: id,
+      creditsCharged: result.data?.creditsCharged,
+    });
+
+    res.json(response);
+  });
+
+  // Get the conversation for a summary
+  getThread = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    const result = await chatService.getThread(req.user.id, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Clear the conversation for a summary
+  clearThread = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    const result = await chatService.clearThread(req.user.id, id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Conversation cleared',
+    };
+
+    res.json(response);
+  });
+}
+
+export const chatController = new ChatController();
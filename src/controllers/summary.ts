@@ -1,14 +1,26 @@
 import { Response } from 'express';
 import { summaryService } from '../services/summary';
+import { summaryEvents } from '../services/summaryEvents';
+import { chapterService } from '../services/chapters';
 import {
   AuthenticatedRequest,
   ApiResponse,
   GenerateSummaryDto,
+  TranslateSummaryDto,
   UpdateSummaryDto,
   SummaryQueryParams,
+  SummaryEvent,
 } from '../types';
 import { catchAsync } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
+import { getAuditContext } from '../utils/request';
+
+// Comment line sent periodically so proxies don't drop idle event streams
+const SSE_HEARTBEAT_MS = 15000;
+// How often an open stream re-reads the summary, for jobs run by other instances
+const SSE_STATUS_CHECK_MS = 5000;
+// Streams are closed after this long, so a summary stuck in flight can't hold a connection forever
+const SSE_MAX_DURATION_MS = 10 * 60 * 1000;
 
 export class SummaryController {
   // Generate AI summary from transcript
@@ -21,26 +33,33 @@ export class SummaryController {
       return res.status(401).json(response);
     }
 
-    const { transcript, videoMetadata }: GenerateSummaryDto = req.body;
+    const { transcript, videoMetadata, options }: GenerateSummaryDto = req.body;
 
     const result = await summaryService.generateSummary(req.user.id, {
       transcript,
       videoMetadata,
+      options,
     });
 
+    const isComplete = result.data?.status === 'COMPLETED';
+
     const response: ApiResponse = {
       success: true,
       data: result.data,
-      message: 'Summary generated successfully',
+      message: isComplete
+        ? 'Summary already generated'
+        : 'Summary generation started',
     };
 
-    logger.info('Summary generated', {
+    logger.info('Summary requested', {
       userId: req.user.id,
       videoId: videoMetadata.videoId,
       summaryId: result.data?.id,
+      status: result.data?.status,
     });
 
-    res.json(response);
+    // 202 until the worker finishes; poll GET /summary/:id for the result
+    res.status(isComplete ? 200 : 202).json(response);
   });
 
   // Save summary
@@ -126,6 +145,210 @@ export class SummaryController {
     res.json(response);
   });
 
+  // Stream generation progress as Server-Sent Events
+  streamEvents = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const userId = req.user.id;
+    const { id } = req.params;
+    const includeTokens = req.query.tokens === 'true';
+
+    const result = await summaryService.getSummaryById(userId, id);
+    const summary = result.data!;
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (event: SummaryEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // Emit the terminal event for a finished summary; returns false while still in flight
+    const sendIfFinished = (current: typeof summary): boolean => {
+      if (current.status === 'COMPLETED') {
+        send({ type: 'completed', summaryId: id, summary: current });
+        return true;
+      }
+      if (current.status === 'FAILED') {
+        send({ type: 'failed', summaryId: id, error: 'Summary generation failed' });
+        return true;
+      }
+      return false;
+    };
+
+    send({ type: 'status', summaryId: id, status: summary.status });
+    if (sendIfFinished(summary)) {
+      return res.end();
+    }
+
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+      clearInterval(statusCheck);
+      clearTimeout(maxDuration);
+      res.end();
+    };
+
+    const unsubscribe = summaryEvents.subscribe(id, (event) => {
+      if ((event.type === 'token' || event.type === 'reset') && !includeTokens) return;
+
+      send(event);
+      if (event.type === 'completed' || event.type === 'failed') {
+        close();
+      }
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, SSE_HEARTBEAT_MS);
+
+    const statusCheck = setInterval(async () => {
+      try {
+        const latest = await summaryService.getSummaryById(userId, id);
+        if (!closed && latest.data && sendIfFinished(latest.data)) {
+          close();
+        }
+      } catch {
+        close();
+      }
+    }, SSE_STATUS_CHECK_MS);
+
+    const maxDuration = setTimeout(() => {
+      send({ type: 'timeout', summaryId: id });
+      close();
+    }, SSE_MAX_DURATION_MS);
+
+    req.on('close', close);
+
+    logger.info('Summary event stream opened', {
+      userId,
+      summaryId: id,
+      includeTokens,
+    });
+  });
+
+  // Translate a summary into another language
+  translate = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    const { language }: TranslateSummaryDto = req.body;
+
+    const result = await summaryService.translateSummary(
+      req.user.id,
+      id,
+      language,
+      getAuditContext(req)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Summary translated successfully',
+    };
+
+    logger.info('Summary translation requested', {
+      userId: req.user.id,
+      summaryId: id,
+      translatedId: result.data?.id,
+      language,
+    });
+
+    res.json(response);
+  });
+
+  // Queue chapter generation for a summary
+  generateChapters = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    const result = await chapterService.requestChapters(
+      req.user.id,
+      id,
+      getAuditContext(req)
+    );
+    const completed = result.data?.status === 'COMPLETED';
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: completed ? 'Chapters already generated' : 'Chapter generation started',
+    };
+
+    logger.info('Chapters requested', {
+      userId: req.user.id,
+      summaryId: id,
+      status: result.data?.status,
+    });
+
+    // Otherwise poll GET /summary/:id/chapters until status is COMPLETED
+    res.status(completed ? 200 : 202).json(response);
+  });
+
+  // Get chapters as JSON or YouTube description text
+  getChapters = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    const { format } = req.query as { format?: 'json' | 'youtube' };
+
+    const result = await chapterService.getChapters(req.user.id, id);
+
+    if (format === 'youtube') {
+      if (!result.data?.chapters.length) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Chapters have not been generated for this summary',
+        };
+        return res.status(404).json(response);
+      }
+
+      return res
+        .type('text/plain')
+        .send(chapterService.toYouTubeDescription(result.data.chapters));
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
   // Update summary
   updateSummary = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
@@ -168,7 +391,7 @@ export class SummaryController {
 
     const { id } = req.params;
 
-    await summaryService.deleteSummary(req.user.id, id);
+    await summaryService.deleteSummary(req.user.id, id, getAuditContext(req));
 
     const response: ApiResponse = {
       success: true,
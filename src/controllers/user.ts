@@ -1,5 +1,7 @@
 import { Response } from 'express';
 import { userService } from '../services/user';
+import { authService } from '../services/auth';
+import { auditService } from '../services/audit';
 import {
   AuthenticatedRequest,
   ApiResponse,
@@ -7,6 +9,7 @@ import {
 } from '../types';
 import { catchAsync } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
+import { getAuditContext } from '../utils/request';
 
 export class UserController {
   // Get user profile
@@ -77,8 +80,8 @@ export class UserController {
     res.json(response);
   });
 
-  // Add credits to user account
-  addCredits = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  // Delete user account
+  deleteAccount = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       const response: ApiResponse = {
         success: false,
@@ -87,35 +90,23 @@ export class UserController {
       return res.status(401).json(response);
     }
 
-    const { credits } = req.body;
-
-    if (!credits || credits <= 0) {
-      const response: ApiResponse = {
-        success: false,
-        error: 'Invalid credits amount',
-      };
-      return res.status(400).json(response);
-    }
-
-    const result = await userService.addCredits(req.user.id, credits);
+    await userService.deleteUser(req.user.id, getAuditContext(req));
 
     const response: ApiResponse = {
       success: true,
-      data: result.data,
-      message: `${credits} credits added successfully`,
+      message: 'Account deleted successfully',
     };
 
-    logger.info('Credits added to user', {
+    logger.info('User account deleted', {
       userId: req.user.id,
-      creditsAdded: credits,
-      newBalance: result.data?.newBalance,
+      email: req.user.email,
     });
 
     res.json(response);
   });
 
-  // Upgrade user plan
-  upgradePlan = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  // Verify user email
+  verifyEmail = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       const response: ApiResponse = {
         success: false,
@@ -124,34 +115,25 @@ export class UserController {
       return res.status(401).json(response);
     }
 
-    const { plan } = req.body;
+    // Require proof of mailbox ownership; the token must belong to this user
+    const { token } = req.body;
 
-    if (!plan || !['FREE', 'PREMIUM'].includes(plan)) {
-      const response: ApiResponse = {
-        success: false,
-        error: 'Invalid plan type',
-      };
-      return res.status(400).json(response);
-    }
-
-    const result = await userService.upgradePlan(req.user.id, plan);
+    await authService.verifyEmail(token, req.user.id, getAuditContext(req));
 
     const response: ApiResponse = {
       success: true,
-      data: result.data,
-      message: `Plan upgraded to ${plan} successfully`,
+      message: 'Email verified successfully',
     };
 
-    logger.info('User plan upgraded', {
+    logger.info('User email verified', {
       userId: req.user.id,
-      newPlan: plan,
     });
 
     res.json(response);
   });
 
-  // Delete user account
-  deleteAccount = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  // Get the user's recent security activity
+  getSecurityActivity = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       const response: ApiResponse = {
         success: false,
@@ -160,42 +142,16 @@ export class UserController {
       return res.status(401).json(response);
     }
 
-    await userService.deleteUser(req.user.id);
-
-    const response: ApiResponse = {
-      success: true,
-      message: 'Account deleted successfully',
-    };
-
-    logger.info('User account deleted', {
-      userId: req.user.id,
-      email: req.user.email,
+    const result = await auditService.getSecurityActivity(req.user.id, {
+      page: req.query.page ? Math.max(1, parseInt(req.query.page as string) || 1) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20)) : 20,
     });
 
-    res.json(response);
-  });
-
-  // Verify user email
-  verifyEmail = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
-    if (!req.user) {
-      const response: ApiResponse = {
-        success: false,
-        error: 'User not authenticated',
-      };
-      return res.status(401).json(response);
-    }
-
-    await userService.verifyEmail(req.user.id);
-
     const response: ApiResponse = {
       success: true,
-      message: 'Email verified successfully',
+      data: result.data,
     };
 
-    logger.info('User email verified', {
-      userId: req.user.id,
-    });
-
     res.json(response);
   });
 }
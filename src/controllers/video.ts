@@ -0,0 +1,30 @@
+import { Response } from 'express';
+import { videoService } from '../services/video';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+
+export class VideoController {
+  // Get stored metadata for a video
+  getVideo = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { videoId } = req.params;
+
+    const result = await videoService.getVideo(videoId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+}
+
+export const videoController = new VideoController();
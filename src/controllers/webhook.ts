@@ -0,0 +1,138 @@
+import { Response } from 'express';
+import { webhookService } from '../services/webhook';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  CreateWebhookDto,
+  UpdateWebhookDto,
+} from '../types';
+import { catchAsync } from '../middleware/errorHandler';
+import { logger } from '../config/logger';
+
+export class WebhookController {
+  // List webhook endpoints
+  getEndpoints = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const result = await webhookService.getEndpoints(req.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+
+  // Register webhook endpoint
+  createEndpoint = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { url, description, events }: CreateWebhookDto = req.body;
+
+    const result = await webhookService.createEndpoint(req.user.id, {
+      url,
+      description,
+      events,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Webhook created. Copy the signing secret now, it will not be shown again.',
+    };
+
+    logger.info('Webhook endpoint created', {
+      userId: req.user.id,
+      endpointId: result.data?.id,
+    });
+
+    res.status(201).json(response);
+  });
+
+  // Update webhook endpoint
+  updateEndpoint = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+    const updates: UpdateWebhookDto = req.body;
+
+    const result = await webhookService.updateEndpoint(req.user.id, id, updates);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+      message: 'Webhook updated successfully',
+    };
+
+    res.json(response);
+  });
+
+  // Delete webhook endpoint
+  deleteEndpoint = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    await webhookService.deleteEndpoint(req.user.id, id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Webhook deleted successfully',
+    };
+
+    logger.info('Webhook endpoint deleted', { userId: req.user.id, endpointId: id });
+    res.json(response);
+  });
+
+  // Delivery log for an endpoint
+  getDeliveries = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'User not authenticated',
+      };
+      return res.status(401).json(response);
+    }
+
+    const { id } = req.params;
+
+    const result = await webhookService.getDeliveries(req.user.id, id, {
+      page: req.query.page ? Math.max(1, parseInt(req.query.page as string) || 1) : 1,
+      limit: req.query.limit ? Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20)) : 20,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: result.data,
+    };
+
+    res.json(response);
+  });
+}
+
+export const webhookController = new WebhookController();
@@ -0,0 +1,213 @@
+import { NextFunction, Response } from "express";
+import { prisma } from "../config/database";
+import { hashToken } from "../utils/tokens";
+import { authenticate, requireRole, requireSessionAuth } from "./auth";
+import { AuthenticatedRequest, AuthUser } from "../types";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    apiKey: { findUnique: jest.fn(), update: jest.fn() },
+    user: { findUnique: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  apiKey: { findUnique: jest.Mock; update: jest.Mock };
+  user: { findUnique: jest.Mock };
+};
+
+const KEY = "kng_test_key";
+
+const user = {
+  id: "user-1",
+  email: "ada@example.com",
+  name: "Ada",
+  avatar: null,
+  plan: "FREE",
+  credits: 10,
+  emailVerified: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastLoginAt: null,
+  supabaseId: null,
+  role: "USER",
+  disabledAt: null,
+};
+
+const storedKey = (
+  overrides: {
+    scope?: "READ_ONLY" | "GENERATE";
+    revokedAt?: Date | null;
+    expiresAt?: Date | null;
+  } = {}
+) => ({
+  id: "key-1",
+  userId: user.id,
+  keyHash: hashToken(KEY),
+  scope: "READ_ONLY",
+  revokedAt: null,
+  expiresAt: null,
+  lastUsedAt: new Date(),
+  ...overrides,
+});
+
+const makeRequest = (
+  method: string,
+  headers: Record<string, string> = { authorization: `Bearer ${KEY}` }
+) =>
+  ({
+    method,
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+  }) as unknown as AuthenticatedRequest;
+
+const makeResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+const run = async (req: AuthenticatedRequest) => {
+  const res = makeResponse();
+  const next = jest.fn() as NextFunction;
+  await authenticate(req, res as unknown as Response, next);
+  return { res, next };
+};
+
+describe("authenticate with an API key", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.user.findUnique.mockResolvedValue(user);
+  });
+
+  it("lets a read-only key read", async () => {
+    db.apiKey.findUnique.mockResolvedValue(storedKey());
+    const req = makeRequest("GET");
+
+    const { next } = await run(req);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user?.id).toBe(user.id);
+    expect(req.apiKey).toEqual({ id: "key-1", scope: "READ_ONLY" });
+  });
+
+  it("stops a read-only key from changing anything", async () => {
+    db.apiKey.findUnique.mockResolvedValue(storedKey());
+
+    for (const method of ["POST", "PUT", "PATCH", "DELETE"]) {
+      const { res, next } = await run(makeRequest(method));
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    }
+  });
+
+  it("lets a generate key write", async () => {
+    db.apiKey.findUnique.mockResolvedValue(storedKey({ scope: "GENERATE" }));
+
+    const { next } = await run(makeRequest("POST"));
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("accepts the key from the X-API-Key header", async () => {
+    db.apiKey.findUnique.mockResolvedValue(storedKey());
+
+    const { next } = await run(makeRequest("GET", { "x-api-key": KEY }));
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("rejects revoked and expired keys", async () => {
+    for (const key of [
+      storedKey({ revokedAt: new Date() }),
+      storedKey({ expiresAt: new Date(Date.now() - 1_000) }),
+      null,
+    ]) {
+      db.apiKey.findUnique.mockResolvedValue(key);
+
+      const { res, next } = await run(makeRequest("GET"));
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    }
+  });
+
+  it("rejects keys of disabled accounts", async () => {
+    db.apiKey.findUnique.mockResolvedValue(storedKey({ scope: "GENERATE" }));
+    db.user.findUnique.mockResolvedValue({ ...user, disabledAt: new Date() });
+
+    const { res, next } = await run(makeRequest("GET"));
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe("requireSessionAuth", () => {
+  it("rejects requests made with an API key", () => {
+    const req = makeRequest("GET");
+    req.apiKey = { id: "key-1", scope: "GENERATE" };
+    const res = makeResponse();
+    const next = jest.fn();
+
+    requireSessionAuth(req, res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("lets session requests through", () => {
+    const res = makeResponse();
+    const next = jest.fn();
+
+    requireSessionAuth(makeRequest("GET"), res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe("requireRole", () => {
+  const withRole = (role: AuthUser["role"]) => {
+    const req = makeRequest("GET");
+    req.user = { ...user, role } as unknown as AuthUser;
+    return req;
+  };
+
+  it("lets listed roles through", () => {
+    for (const role of ["SUPPORT", "ADMIN"] as const) {
+      const res = makeResponse();
+      const next = jest.fn();
+
+      requireRole("SUPPORT", "ADMIN")(
+        withRole(role),
+        res as unknown as Response,
+        next
+      );
+
+      expect(next).toHaveBeenCalled();
+    }
+  });
+
+  it("rejects roles that are not listed", () => {
+    for (const role of ["USER", "SUPPORT"] as const) {
+      const res = makeResponse();
+      const next = jest.fn();
+
+      requireRole("ADMIN")(withRole(role), res as unknown as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    }
+  });
+
+  it("requires an authenticated user", () => {
+    const res = makeResponse();
+    const next = jest.fn();
+
+    requireRole("ADMIN")(makeRequest("GET"), res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
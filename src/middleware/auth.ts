@@ -3,8 +3,14 @@ import jwt from "jsonwebtoken";
 import { createClient } from "@supabase/supabase-js";
 import { prisma } from "../config/database";
 import { config } from "../config";
-import { AuthenticatedRequest, JwtPayload, ApiResponse } from "../types";
+import {
+  AuthenticatedRequest,
+  JwtPayload,
+  ApiResponse,
+  UserRole,
+} from "../types";
 import { logger } from "../config/logger";
+import { apiKeyService, API_KEY_PREFIX } from "../services/apiKey";
 
 const supabase = createClient(config.supabase.url, config.supabase.serviceKey);
 
@@ -17,7 +23,7 @@ export const authenticate = async (
     const authHeader = req.headers.authorization;
     const token = authHeader?.startsWith("Bearer ")
       ? authHeader.slice(7)
-      : null;
+      : req.get("X-API-Key") || null;
 
     if (!token) {
       const response: ApiResponse = {
@@ -27,6 +33,11 @@ export const authenticate = async (
       return res.status(401).json(response);
     }
 
+    // Personal API keys are recognisable by their prefix
+    if (token.startsWith(API_KEY_PREFIX)) {
+      return await authenticateApiKey(token, req, res, next);
+    }
+
     let payload: JwtPayload;
     let user;
 
@@ -48,12 +59,16 @@ export const authenticate = async (
           updatedAt: true,
           lastLoginAt: true,
           supabaseId: true,
+          role: true,
+          disabledAt: true,
         },
       });
 
       if (!user) {
         throw new Error("User not found");
       }
+
+      req.sessionId = payload.sessionId;
     } catch (jwtError) {
       // FIXED: Fallback to Supabase only if JWT fails
       try {
@@ -79,6 +94,8 @@ export const authenticate = async (
             updatedAt: true,
             lastLoginAt: true,
             supabaseId: true,
+            role: true,
+            disabledAt: true,
           },
         });
 
@@ -105,6 +122,8 @@ export const authenticate = async (
               updatedAt: true,
               lastLoginAt: true,
               supabaseId: true,
+              role: true,
+              disabledAt: true,
             },
           });
         }
@@ -128,9 +147,18 @@ export const authenticate = async (
       }
     }
 
+    if (user.disabledAt) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Account disabled",
+      };
+      return res.status(403).json(response);
+    }
+
     // FIXED: Format user data consistently
+    const { disabledAt, ...activeUser } = user;
     req.user = {
-      ...user,
+      ...activeUser,
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
       lastLoginAt: user.lastLoginAt?.toISOString() || null,
@@ -152,6 +180,99 @@ export const authenticate = async (
   }
 };
 
+// Authenticate with a personal API key
+const authenticateApiKey = async (
+  key: string,
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const apiKey = await apiKeyService.findActiveKey(key);
+
+  if (!apiKey) {
+    const response: ApiResponse = {
+      success: false,
+      error: "Invalid or revoked API key",
+    };
+    return res.status(401).json(response);
+  }
+
+  // Read-only keys may not change anything
+  if (
+    apiKey.scope === "READ_ONLY" &&
+    !["GET", "HEAD", "OPTIONS"].includes(req.method)
+  ) {
+    const response: ApiResponse = {
+      success: false,
+      error: "API key scope does not allow this operation",
+    };
+    return res.status(403).json(response);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: apiKey.userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      avatar: true,
+      plan: true,
+      credits: true,
+      emailVerified: true,
+      createdAt: true,
+      updatedAt: true,
+      lastLoginAt: true,
+      supabaseId: true,
+      role: true,
+      disabledAt: true,
+    },
+  });
+
+  if (!user) {
+    const response: ApiResponse = {
+      success: false,
+      error: "Invalid or revoked API key",
+    };
+    return res.status(401).json(response);
+  }
+
+  if (user.disabledAt) {
+    const response: ApiResponse = {
+      success: false,
+      error: "Account disabled",
+    };
+    return res.status(403).json(response);
+  }
+
+  const { disabledAt, ...activeUser } = user;
+  req.user = {
+    ...activeUser,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+    lastLoginAt: user.lastLoginAt?.toISOString() || null,
+  };
+  req.apiKey = { id: apiKey.id, scope: apiKey.scope };
+
+  next();
+};
+
+// Reject API key authentication for account and credential management
+export const requireSessionAuth = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.apiKey) {
+    const response: ApiResponse = {
+      success: false,
+      error: "This endpoint cannot be used with an API key",
+    };
+    return res.status(403).json(response);
+  }
+
+  next();
+};
+
 export const requirePlan = (requiredPlan: "FREE" | "PREMIUM") => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -174,6 +295,35 @@ export const requirePlan = (requiredPlan: "FREE" | "PREMIUM") => {
   };
 };
 
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Authentication required",
+      };
+      return res.status(401).json(response);
+    }
+
+    if (!roles.includes(req.user.role)) {
+      logger.warn("Role check failed", {
+        userId: req.user.id,
+        role: req.user.role,
+        requiredRoles: roles,
+        endpoint: req.originalUrl,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: "Insufficient permissions",
+      };
+      return res.status(403).json(response);
+    }
+
+    next();
+  };
+};
+
 export const requireCredits = (requiredCredits: number = 1) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
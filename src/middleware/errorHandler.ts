@@ -31,6 +31,8 @@ export class AppError extends Error implements ApiError {
   public errors?: any[];
   public code?: string;
   public retryable?: boolean;
+  // Upstream-requested wait before retrying (e.g. a 429 Retry-After)
+  public retryAfterMs?: number;
 
   constructor(
     message: string,
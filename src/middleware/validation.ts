@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { Request, Response, NextFunction } from "express";
 import { ApiResponse, ValidationError } from "../types";
+import { LANGUAGE_CODES } from "../utils/language";
 
 // Auth validation schemas
 export const registerSchema = z.object({
@@ -53,6 +54,41 @@ export const verifyEmailSchema = z.object({
   }),
 });
 
+export const unlockAccountSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, "Token is required"),
+  }),
+});
+
+export const twoFactorLoginSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1, "Challenge token is required"),
+    code: z
+      .string()
+      .min(6, "Code is required")
+      .max(32, "Code too long"),
+  }),
+});
+
+export const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: z
+      .string()
+      .min(6, "Code is required")
+      .max(32, "Code too long"),
+  }),
+});
+
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, "Password is required"),
+    code: z
+      .string()
+      .min(6, "Code is required")
+      .max(32, "Code too long"),
+  }),
+});
+
 // User validation schemas
 export const updateProfileSchema = z.object({
   body: z.object({
@@ -65,6 +101,132 @@ export const updateProfileSchema = z.object({
   }),
 });
 
+export const createApiKeySchema = z.object({
+  body: z.object({
+    name: z.string().min(1, "Name is required").max(100, "Name too long"),
+    scope: z.enum(["READ_ONLY", "GENERATE"]).default("READ_ONLY"),
+    expiresInDays: z.number().int().min(1).max(365).optional(),
+  }),
+});
+
+const webhookEventSchema = z.enum([
+  "summary.completed",
+  "summary.failed",
+  "summary.deleted",
+  "credits.low",
+]);
+
+export const createWebhookSchema = z.object({
+  body: z.object({
+    url: z.string().url("Invalid webhook URL").max(2048, "URL too long"),
+    description: z.string().max(200, "Description too long").optional(),
+    events: z
+      .array(webhookEventSchema)
+      .min(1, "Subscribe to at least one event"),
+  }),
+});
+
+export const updateWebhookSchema = z.object({
+  body: z.object({
+    url: z
+      .string()
+      .url("Invalid webhook URL")
+      .max(2048, "URL too long")
+      .optional(),
+    description: z.string().max(200, "Description too long").nullable().optional(),
+    events: z
+      .array(webhookEventSchema)
+      .min(1, "Subscribe to at least one event")
+      .optional(),
+    active: z.boolean().optional(),
+  }),
+});
+
+// Admin validation schemas
+export const adminAdjustCreditsSchema = z.object({
+  body: z.object({
+    credits: z
+      .number()
+      .int("Credits must be a whole number")
+      .min(-100000, "Adjustment too large")
+      .max(100000, "Adjustment too large")
+      .refine((value) => value !== 0, "Adjustment must not be zero"),
+    reason: z
+      .string()
+      .min(3, "Reason is required")
+      .max(500, "Reason too long"),
+  }),
+});
+
+export const adminChangePlanSchema = z.object({
+  body: z.object({
+    plan: z.enum(["FREE", "PREMIUM"]),
+  }),
+});
+
+export const adminDisableUserSchema = z.object({
+  body: z.object({
+    reason: z
+      .string()
+      .min(3, "Reason is required")
+      .max(500, "Reason too long"),
+  }),
+});
+
+export const adminUserQuerySchema = z.object({
+  query: z.object({
+    page: z
+      .string()
+      .transform(Number)
+      .pipe(z.number().int().min(1))
+      .default("1")
+      .optional(),
+    limit: z
+      .string()
+      .transform(Number)
+      .pipe(z.number().int().min(1).max(100))
+      .default("20")
+      .optional(),
+    search: z.string().max(100).optional(),
+    plan: z.enum(["FREE", "PREMIUM"]).optional(),
+    emailVerified: z.enum(["true", "false"]).optional(),
+    sortBy: z
+      .enum(["createdAt", "email", "name"])
+      .default("createdAt")
+      .optional(),
+    sortOrder: z.enum(["asc", "desc"]).default("desc").optional(),
+  }),
+});
+
+export const auditQuerySchema = z.object({
+  query: z.object({
+    page: z
+      .string()
+      .transform(Number)
+      .pipe(z.number().int().min(1))
+      .default("1")
+      .optional(),
+    limit: z
+      .string()
+      .transform(Number)
+      .pipe(z.number().int().min(1).max(100))
+      .default("20")
+      .optional(),
+    action: z.string().max(100).optional(),
+    actorId: z.string().optional(),
+    targetUserId: z.string().optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+  }),
+});
+
+export const usageQuerySchema = z.object({
+  query: z.object({
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+  }),
+});
+
 // Summary validation schemas
 const transcriptSegmentSchema = z.object({
   timestamp: z.string().min(1, "Timestamp is required"),
@@ -86,12 +248,23 @@ const videoMetadataSchema = z.object({
   likeCount: z.number().optional(),
 });
 
+const summaryOptionsSchema = z.object({
+  length: z.enum(["brief", "standard", "detailed"]).optional(),
+  style: z.enum(["bullet", "narrative", "executive", "technical"]).optional(),
+  audience: z
+    .enum(["general", "beginner", "intermediate", "expert"])
+    .optional(),
+  focus: z.string().max(200, "Focus too long").optional(),
+  language: z.enum(LANGUAGE_CODES).optional(),
+});
+
 export const generateSummarySchema = z.object({
   body: z.object({
     transcript: z
       .array(transcriptSegmentSchema)
       .min(1, "Transcript segments are required"),
     videoMetadata: videoMetadataSchema,
+    options: summaryOptionsSchema.optional(),
   }),
 });
 
@@ -127,6 +300,28 @@ export const updateSummarySchema = z.object({
   }),
 });
 
+export const translateSummarySchema = z.object({
+  body: z.object({
+    language: z.enum(LANGUAGE_CODES),
+  }),
+});
+
+export const askQuestionSchema = z.object({
+  body: z.object({
+    question: z
+      .string()
+      .trim()
+      .min(1, "Question is required")
+      .max(1000, "Question too long"),
+  }),
+});
+
+export const chaptersQuerySchema = z.object({
+  query: z.object({
+    format: z.enum(["json", "youtube"]).optional(),
+  }),
+});
+
 // Query parameter validation schemas
 export const paginationSchema = z.object({
   query: z.object({
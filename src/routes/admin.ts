@@ -0,0 +1,136 @@
+import { Router } from "express";
+import { adminController } from "../controllers/admin";
+import {
+  authenticate,
+  requireSessionAuth,
+  requireRole,
+} from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import { generalRateLimit, strictRateLimit } from "../middleware/rateLimit";
+import {
+  adminAdjustCreditsSchema,
+  adminChangePlanSchema,
+  adminDisableUserSchema,
+  adminUserQuerySchema,
+  auditQuerySchema,
+  usageQuerySchema,
+} from "../middleware/validation";
+
+const router = Router();
+
+// All admin routes require an interactive session with an elevated role
+router.use(authenticate as any);
+router.use(requireSessionAuth as any);
+
+// List users
+router.get(
+  "/users",
+  generalRateLimit,
+  requireRole("SUPPORT", "ADMIN") as any,
+  validate(adminUserQuerySchema) as any,
+  adminController.listUsers
+);
+
+// Get a user with summaries and usage
+router.get(
+  "/users/:id",
+  generalRateLimit,
+  requireRole("SUPPORT", "ADMIN") as any,
+  adminController.getUser
+);
+
+// Adjust a user's credits
+router.post(
+  "/users/:id/credits",
+  strictRateLimit,
+  requireRole("ADMIN") as any,
+  validate(adminAdjustCreditsSchema) as any,
+  adminController.adjustCredits
+);
+
+// Change a user's plan
+router.put(
+  "/users/:id/plan",
+  strictRateLimit,
+  requireRole("ADMIN") as any,
+  validate(adminChangePlanSchema) as any,
+  adminController.changePlan
+);
+
+// Force-verify a user's email
+router.post(
+  "/users/:id/verify-email",
+  strictRateLimit,
+  requireRole("SUPPORT", "ADMIN") as any,
+  adminController.verifyEmail
+);
+
+// Revoke all of a user's sessions
+router.post(
+  "/users/:id/revoke-sessions",
+  strictRateLimit,
+  requireRole("SUPPORT", "ADMIN") as any,
+  adminController.revokeSessions
+);
+
+// Disable a user's account
+router.post(
+  "/users/:id/disable",
+  strictRateLimit,
+  requireRole("ADMIN") as any,
+  validate(adminDisableUserSchema) as any,
+  adminController.disableUser
+);
+
+// Re-enable a user's account
+router.post(
+  "/users/:id/enable",
+  strictRateLimit,
+  requireRole("ADMIN") as any,
+  adminController.enableUser
+);
+
+// Query the audit log
+router.get(
+  "/audit-events",
+  generalRateLimit,
+  requireRole("ADMIN") as any,
+  validate(auditQuerySchema) as any,
+  adminController.getAuditEvents
+);
+
+// LLM usage and cost across all users
+router.get(
+  "/usage",
+  generalRateLimit,
+  requireRole("ADMIN") as any,
+  validate(usageQuerySchema) as any,
+  adminController.getUsage
+);
+
+// LLM usage and cost for a user
+router.get(
+  "/users/:id/usage",
+  generalRateLimit,
+  requireRole("ADMIN") as any,
+  validate(usageQuerySchema) as any,
+  adminController.getUserUsage
+);
+
+// Per-call LLM usage for a summary
+router.get(
+  "/summaries/:id/usage",
+  generalRateLimit,
+  requireRole("ADMIN") as any,
+  adminController.getSummaryUsage
+);
+
+// Invalidate cached summaries for a video
+router.delete(
+  "/summary-cache/:videoId",
+  strictRateLimit,
+  requireRole("ADMIN") as any,
+  adminController.invalidateSummaryCache
+);
+
+export default router;
@@ -1,11 +1,12 @@
 import { Router } from "express";
 import { authController } from "../controllers/auth";
-import { authenticate } from "../middleware/auth";
+import { authenticate, requireSessionAuth } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import {
   authRateLimit,
   passwordResetRateLimit,
   emailVerificationRateLimit,
+  strictRateLimit,
 } from "../middleware/rateLimit";
 import {
   registerSchema,
@@ -14,6 +15,10 @@ import {
   forgotPasswordSchema,
   resetPasswordSchema,
   verifyEmailSchema,
+  twoFactorLoginSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  unlockAccountSchema,
 } from "../middleware/validation";
 
 const router = Router();
@@ -33,6 +38,13 @@ router.post(
   authController.login
 );
 
+router.post(
+  "/login/2fa",
+  authRateLimit,
+  validate(twoFactorLoginSchema) as any,
+  authController.loginTwoFactor
+);
+
 router.post(
   "/refresh",
   authRateLimit,
@@ -61,8 +73,16 @@ router.post(
   authController.verifyEmail
 );
 
+router.post(
+  "/unlock",
+  emailVerificationRateLimit,
+  validate(unlockAccountSchema) as any,
+  authController.unlockAccount
+);
+
 // Protected routes
 router.use(authenticate as any);
+router.use(requireSessionAuth as any);
 
 router.post(
   "/logout",
@@ -74,4 +94,38 @@ router.get("/me", authController.me);
 
 router.post("/revoke-all-tokens", authController.revokeAllTokens);
 
+router.get("/sessions", authController.getSessions);
+
+// Two-factor authentication
+router.post("/2fa/setup", strictRateLimit, authController.setupTwoFactor);
+
+router.post(
+  "/2fa/confirm",
+  strictRateLimit,
+  validate(twoFactorCodeSchema) as any,
+  authController.confirmTwoFactor
+);
+
+router.post(
+  "/2fa/disable",
+  strictRateLimit,
+  validate(disableTwoFactorSchema) as any,
+  authController.disableTwoFactor
+);
+
+router.post(
+  "/2fa/recovery-codes",
+  strictRateLimit,
+  validate(twoFactorCodeSchema) as any,
+  authController.regenerateRecoveryCodes
+);
+
+router.delete("/sessions/:id", authController.revokeSession);
+
+router.post(
+  "/resend-verification",
+  emailVerificationRateLimit,
+  authController.resendVerification
+);
+
 export default router;
@@ -1,11 +1,13 @@
 import { Router } from 'express';
 import { ApiResponse } from '../types';
-import { openaiService } from '../services/openai';
+import { aiService } from '../services/ai';
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
 import authRoutes from './auth';
 import summaryRoutes from './summary';
 import userRoutes from './user';
+import adminRoutes from './admin';
+import videoRoutes from './video';
 
 const router = Router();
 
@@ -15,8 +17,8 @@ router.get('/health', async (req, res) => {
     // Test database connection
     await prisma.$queryRaw`SELECT 1`;
     
-    // Test OpenAI connection
-    const openaiTest = await openaiService.testConnection();
+    // Test the default AI provider
+    const aiTest = await aiService.testConnection();
     
     const response: ApiResponse = {
       success: true,
@@ -25,7 +27,7 @@ router.get('/health', async (req, res) => {
         timestamp: new Date().toISOString(),
         services: {
           database: 'connected',
-          openai: openaiTest.success ? 'connected' : 'disconnected',
+          ai: aiTest.success ? 'connected' : 'disconnected',
         },
         version: '1.0.0',
         uptime: process.uptime(),
@@ -44,7 +46,7 @@ router.get('/health', async (req, res) => {
         timestamp: new Date().toISOString(),
         services: {
           database: 'disconnected',
-          openai: 'unknown',
+          ai: 'unknown',
         },
       },
     };
@@ -66,6 +68,8 @@ router.get('/', (req, res) => {
         auth: '/api/auth',
         summary: '/api/summary',
         user: '/api/user',
+        admin: '/api/admin',
+        videos: '/api/videos',
         health: '/api/health',
       },
       documentation: 'https://docs.knugget.com/api',
@@ -79,5 +83,7 @@ router.get('/', (req, res) => {
 router.use('/auth', authRoutes);
 router.use('/summary', summaryRoutes);
 router.use('/user', userRoutes);
+router.use('/admin', adminRoutes);
+router.use('/videos', videoRoutes);
 
 export default router;
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { summaryController } from '../controllers/summary';
+import { chatController } from '../controllers/chat';
 import { authenticate, requireCredits } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { summaryRateLimit, generalRateLimit } from '../middleware/rateLimit';
@@ -7,6 +8,9 @@ import {
   generateSummarySchema,
   saveSummarySchema,
   updateSummarySchema,
+  chaptersQuerySchema,
+  askQuestionSchema,
+  translateSummarySchema,
 } from '../middleware/validation';
 import { config } from '../config';
 
@@ -53,6 +57,61 @@ router.get(
   summaryController.getSummaryById
 );
 
+// Stream generation progress (Server-Sent Events)
+router.get(
+  '/:id/events',
+  generalRateLimit,
+  summaryController.streamEvents
+);
+
+// Translate a completed summary into another language
+router.post(
+  '/:id/translate',
+  summaryRateLimit,
+  requireCredits(config.credits.perTranslation) as any,
+  validate(translateSummarySchema) as any,
+  summaryController.translate
+);
+
+// Generate chapters for a completed summary
+router.post(
+  '/:id/chapters',
+  summaryRateLimit,
+  requireCredits(config.credits.perChapters) as any,
+  summaryController.generateChapters
+);
+
+// Get chapters (?format=youtube for description-ready text)
+router.get(
+  '/:id/chapters',
+  generalRateLimit,
+  validate(chaptersQuerySchema) as any,
+  summaryController.getChapters
+);
+
+// Ask a follow-up question about the video
+router.post(
+  '/:id/chat',
+  summaryRateLimit,
+  requireCredits(config.credits.perChatQuestion) as any,
+  validate(askQuestionSchema) as any,
+  chatController.ask
+);
+
+// Get the follow-up conversation
+router.get(
+  '/:id/chat',
+  generalRateLimit,
+  chatController.getThread
+);
+
+// Clear the follow-up conversation
+router.delete(
+  '/:id/chat',
+  generalRateLimit,
+  chatController.clearThread
+);
+
 // Update summary
 router.put(
   "/:id",
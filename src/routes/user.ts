@@ -1,9 +1,18 @@
 import { Router } from "express";
 import { userController } from "../controllers/user";
-import { authenticate } from "../middleware/auth";
+import { apiKeyController } from "../controllers/apiKey";
+import { webhookController } from "../controllers/webhook";
+import { authenticate, requireSessionAuth } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import { generalRateLimit, strictRateLimit } from "../middleware/rateLimit";
-import { updateProfileSchema } from "../middleware/validation";
+import {
+  updateProfileSchema,
+  verifyEmailSchema,
+  createApiKeySchema,
+  paginationSchema,
+  createWebhookSchema,
+  updateWebhookSchema,
+} from "../middleware/validation";
 
 const router = Router();
 
@@ -24,16 +33,92 @@ router.put(
 // Get user statistics
 router.get("/stats", generalRateLimit, userController.getStats);
 
-// Add credits (for testing or admin purposes)
-router.post("/credits/add", strictRateLimit, userController.addCredits);
-
-// Upgrade user plan
-router.post("/plan/upgrade", strictRateLimit, userController.upgradePlan);
-
 // Verify email
-router.post("/verify-email", generalRateLimit, userController.verifyEmail);
+router.post(
+  "/verify-email",
+  generalRateLimit,
+  requireSessionAuth as any,
+  validate(verifyEmailSchema) as any,
+  userController.verifyEmail
+);
+
+// Recent security activity on the account
+router.get(
+  "/security-activity",
+  generalRateLimit,
+  requireSessionAuth as any,
+  validate(paginationSchema) as any,
+  userController.getSecurityActivity
+);
 
 // Delete user account
-router.delete("/account", strictRateLimit, userController.deleteAccount);
+router.delete(
+  "/account",
+  strictRateLimit,
+  requireSessionAuth as any,
+  userController.deleteAccount
+);
+
+// Personal API keys (managed only from a signed-in session)
+router.get(
+  "/api-keys",
+  generalRateLimit,
+  requireSessionAuth as any,
+  apiKeyController.getApiKeys
+);
+
+router.post(
+  "/api-keys",
+  strictRateLimit,
+  requireSessionAuth as any,
+  validate(createApiKeySchema) as any,
+  apiKeyController.createApiKey
+);
+
+router.delete(
+  "/api-keys/:id",
+  generalRateLimit,
+  requireSessionAuth as any,
+  apiKeyController.revokeApiKey
+);
+
+// Outgoing webhooks (managed only from a signed-in session)
+router.get(
+  "/webhooks",
+  generalRateLimit,
+  requireSessionAuth as any,
+  webhookController.getEndpoints
+);
+
+router.post(
+  "/webhooks",
+  strictRateLimit,
+  requireSessionAuth as any,
+  validate(createWebhookSchema) as any,
+  webhookController.createEndpoint
+);
+
+router.put(
+  "/webhooks/:id",
+  generalRateLimit,
+  requireSessionAuth as any,
+  validate(updateWebhookSchema) as any,
+  webhookController.updateEndpoint
+);
+
+router.delete(
+  "/webhooks/:id",
+  generalRateLimit,
+  requireSessionAuth as any,
+  webhookController.deleteEndpoint
+);
+
+router.get(
+  "/webhooks/:id/deliveries",
+  generalRateLimit,
+  requireSessionAuth as any,
+  validate(paginationSchema) as any,
+  webhookController.getDeliveries
+);
 
 export default router;
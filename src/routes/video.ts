@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { videoController } from '../controllers/video';
+import { authenticate } from '../middleware/auth';
+import { generalRateLimit } from '../middleware/rateLimit';
+
+const router = Router();
+
+// All video routes require authentication
+router.use(authenticate as any);
+
+// Get video metadata
+router.get(
+  '/:videoId',
+  generalRateLimit,
+  videoController.getVideo
+);
+
+export default router;
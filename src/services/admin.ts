@@ -0,0 +1,316 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { authService } from "./auth";
+import { userService } from "./user";
+import { summaryService } from "./summary";
+import { auditService } from "./audit";
+import {
+  AdminUserDetail,
+  AdminUserListItem,
+  AuditContext,
+  PaginatedResponse,
+  ServiceResponse,
+  UserQueryParams,
+} from "../types";
+
+// Recent summaries included in the user detail view
+const RECENT_SUMMARY_LIMIT = 10;
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  avatar: true,
+  plan: true,
+  role: true,
+  credits: true,
+  emailVerified: true,
+  twoFactorEnabled: true,
+  disabledAt: true,
+  disabledReason: true,
+  createdAt: true,
+  lastLoginAt: true,
+  _count: {
+    select: { summaries: true },
+  },
+} satisfies Prisma.UserSelect;
+
+type AdminUserRecord = Prisma.UserGetPayload<{
+  select: typeof adminUserSelect;
+}>;
+
+export class AdminService {
+  // List users with filtering, search and pagination
+  async listUsers(
+    params: UserQueryParams = {}
+  ): Promise<ServiceResponse<PaginatedResponse<AdminUserListItem>>> {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        search,
+        plan,
+        emailVerified,
+        sortBy = "createdAt",
+        sortOrder = "desc",
+      } = params;
+
+      const where: Prisma.UserWhereInput = {
+        ...(plan && { plan }),
+        ...(emailVerified !== undefined && { emailVerified }),
+        ...(search && {
+          OR: [
+            { email: { contains: search, mode: "insensitive" } },
+            { name: { contains: search, mode: "insensitive" } },
+          ],
+        }),
+      };
+
+      const [total, users] = await Promise.all([
+        prisma.user.count({ where }),
+        prisma.user.findMany({
+          where,
+          select: adminUserSelect,
+          orderBy: { [sortBy]: sortOrder },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      const response: PaginatedResponse<AdminUserListItem> = {
+        data: users.map((user) => this.formatUser(user)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+
+      return { success: true, data: response };
+    } catch (error) {
+      logger.error("Admin list users failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        params,
+      });
+      throw new AppError("Failed to list users", 500);
+    }
+  }
+
+  // Get a single user with usage stats and recent summaries
+  async getUserDetail(
+    userId: string
+  ): Promise<ServiceResponse<AdminUserDetail>> {
+    try {
+      const user = await this.findUser(userId);
+
+      const [stats, summaries, activeSessions, activeApiKeys] =
+        await Promise.all([
+          userService.getUserStats(userId),
+          summaryService.getSummaries(userId, {
+            limit: RECENT_SUMMARY_LIMIT,
+          }),
+          prisma.refreshToken.count({
+            where: {
+              userId,
+              revoked: false,
+              expiresAt: { gt: new Date() },
+            },
+          }),
+          prisma.apiKey.count({
+            where: { userId, revokedAt: null },
+          }),
+        ]);
+
+      const detail: AdminUserDetail = {
+        ...this.formatUser(user),
+        stats: stats.data!,
+        activeSessions,
+        activeApiKeys,
+        recentSummaries: summaries.data?.data ?? [],
+      };
+
+      return { success: true, data: detail };
+    } catch (error) {
+      logger.error("Admin get user failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get user", 500);
+    }
+  }
+
+  // Mark a user's email as verified without a token
+  async forceVerifyEmail(
+    userId: string,
+    context: AuditContext
+  ): Promise<ServiceResponse<void>> {
+    const user = await this.findUser(userId);
+
+    if (user.emailVerified) {
+      throw new AppError("Email is already verified", 400);
+    }
+
+    await userService.verifyEmail(userId, context);
+    await prisma.emailVerificationToken.deleteMany({ where: { userId } });
+
+    logger.info("Admin force-verified email", {
+      actorId: context.actorId,
+      userId,
+    });
+    return { success: true };
+  }
+
+  // Sign a user out of every session
+  async revokeSessions(
+    userId: string,
+    context: AuditContext
+  ): Promise<ServiceResponse<void>> {
+    await this.findUser(userId);
+    await authService.revokeAllTokens(userId, context);
+
+    logger.info("Admin revoked user sessions", {
+      actorId: context.actorId,
+      userId,
+    });
+    return { success: true };
+  }
+
+  // Disable an account and end its sessions
+  async disableUser(
+    userId: string,
+    reason: string,
+    context: AuditContext
+  ): Promise<ServiceResponse<AdminUserListItem>> {
+    try {
+      if (context.actorId === userId) {
+        throw new AppError("You cannot disable your own account", 400);
+      }
+
+      const user = await this.findUser(userId);
+
+      if (user.disabledAt) {
+        throw new AppError("Account is already disabled", 400);
+      }
+
+      const [updatedUser, revoked] = await prisma.$transaction([
+        prisma.user.update({
+          where: { id: userId },
+          data: { disabledAt: new Date(), disabledReason: reason },
+          select: adminUserSelect,
+        }),
+        prisma.refreshToken.updateMany({
+          where: { userId, revoked: false },
+          data: { revoked: true },
+        }),
+      ]);
+
+      logger.warn("Admin disabled user account", {
+        actorId: context.actorId,
+        userId,
+        reason,
+      });
+
+      await auditService.record(
+        {
+          action: "user.disabled",
+          targetUserId: userId,
+          metadata: { reason, sessionsRevoked: revoked.count },
+        },
+        context
+      );
+
+      return { success: true, data: this.formatUser(updatedUser) };
+    } catch (error) {
+      logger.error("Admin disable user failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to disable user", 500);
+    }
+  }
+
+  // Re-enable a disabled account
+  async enableUser(
+    userId: string,
+    context: AuditContext
+  ): Promise<ServiceResponse<AdminUserListItem>> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.disabledAt) {
+        throw new AppError("Account is not disabled", 400);
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: { disabledAt: null, disabledReason: null },
+        select: adminUserSelect,
+      });
+
+      logger.info("Admin enabled user account", {
+        actorId: context.actorId,
+        userId,
+      });
+
+      await auditService.record(
+        { action: "user.enabled", targetUserId: userId },
+        context
+      );
+
+      return { success: true, data: this.formatUser(updatedUser) };
+    } catch (error) {
+      logger.error("Admin enable user failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to enable user", 500);
+    }
+  }
+
+  private async findUser(userId: string): Promise<AdminUserRecord> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: adminUserSelect,
+    });
+
+    if (!user) {
+      throw new AppError("User not found", 404);
+    }
+
+    return user;
+  }
+
+  private formatUser(user: AdminUserRecord): AdminUserListItem {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      plan: user.plan,
+      role: user.role,
+      credits: user.credits,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      disabledAt: user.disabledAt?.toISOString() || null,
+      disabledReason: user.disabledReason,
+      summaryCount: user._count.summaries,
+      createdAt: user.createdAt.toISOString(),
+      lastLoginAt: user.lastLoginAt?.toISOString() || null,
+    };
+  }
+}
+
+export const adminService = new AdminService();
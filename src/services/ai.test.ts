@@ -0,0 +1,228 @@
+import { aiService } from "./ai";
+import { FakeLLMProvider, llmService } from "./llm";
+import { AppError } from "../middleware/errorHandler";
+import { formatTimestamp } from "../utils/timestamps";
+import {
+  LLMCallUsage,
+  LLMTarget,
+  TranscriptSegment,
+  VideoMetadata,
+  DEFAULT_SUMMARY_OPTIONS,
+  MAX_TRANSCRIPT_LENGTH,
+} from "../types";
+
+const target: LLMTarget = { provider: "fake", model: "fake-model" };
+const fake = llmService.getProvider("fake") as FakeLLMProvider;
+
+const video: VideoMetadata = {
+  videoId: "abc123",
+  title: "Caching in practice",
+  channelName: "Knugget",
+  duration: "6:00",
+  url: "https://youtube.com/watch?v=abc123",
+};
+
+// One segment every 30 seconds
+const makeTranscript = (count: number, text = "We talk about caching here"): TranscriptSegment[] =>
+  Array.from({ length: count }, (_, i) => ({
+    timestamp: formatTimestamp(i * 30),
+    text: `${text} (${i})`,
+  }));
+
+describe("AIService on the fake provider", () => {
+  afterEach(() => {
+    fake.setResponder(null);
+  });
+
+  describe("generateSummary", () => {
+    it("returns key points anchored to transcript segments", async () => {
+      const usage: LLMCallUsage[] = [];
+      const result = await aiService.generateSummary(
+        makeTranscript(12),
+        video,
+        DEFAULT_SUMMARY_OPTIONS,
+        { onUsage: (call) => usage.push(call) },
+        target
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data!.keyPoints).toHaveLength(3);
+      expect(result.data!.keyPointTimestamps).toEqual([0, 30, 60]);
+      expect(result.data!.fullSummary).toMatch(/^Deterministic summary/);
+      expect(usage.map((call) => call.purpose)).toEqual(["summary"]);
+    });
+
+    it("streams the full summary text as it is generated", async () => {
+      let streamed = "";
+      const result = await aiService.generateSummary(
+        makeTranscript(4),
+        video,
+        DEFAULT_SUMMARY_OPTIONS,
+        { onToken: (delta) => (streamed += delta) },
+        target
+      );
+
+      expect(streamed).toBe(result.data!.fullSummary);
+    });
+
+    it("summarizes long transcripts chunk by chunk", async () => {
+      const segmentText = "x".repeat(1000);
+      const transcript = makeTranscript(
+        Math.ceil(MAX_TRANSCRIPT_LENGTH / segmentText.length) + 10,
+        segmentText
+      );
+      const usage: LLMCallUsage[] = [];
+      const progress: number[] = [];
+
+      const result = await aiService.generateSummary(
+        transcript,
+        video,
+        DEFAULT_SUMMARY_OPTIONS,
+        {
+          onUsage: (call) => usage.push(call),
+          onChunkProgress: (chunk) => progress.push(chunk),
+        },
+        target
+      );
+
+      const chunkCalls = usage.filter((call) => call.purpose === "chunk");
+      expect(chunkCalls.length).toBeGreaterThan(1);
+      expect(progress).toEqual(chunkCalls.map((_, i) => i + 1));
+      expect(usage[usage.length - 1].purpose).toBe("final");
+      expect(result.data!.keyPoints).toHaveLength(3);
+    });
+
+    it("retries a failed call and discards the text it streamed", async () => {
+      const usage: LLMCallUsage[] = [];
+      const events: string[] = [];
+      let calls = 0;
+      fake.setResponder((request) => {
+        calls++;
+        if (calls === 1) {
+          request.onDelta?.('{"fullSummary": "Half a sen');
+          throw new AppError("Rate limited", 429, true, undefined, "RATE_LIMITED", true);
+        }
+
+        return JSON.stringify({
+          keyPoints: [{ text: "Only point", timestamp: "0:30" }],
+          fullSummary: "Whole summary.",
+          tags: ["retry"],
+        });
+      });
+
+      const result = await aiService.generateSummary(
+        makeTranscript(4),
+        video,
+        DEFAULT_SUMMARY_OPTIONS,
+        {
+          onToken: (delta) => events.push(`token:${delta}`),
+          onTokenReset: () => events.push("reset"),
+          onUsage: (call) => usage.push(call),
+        },
+        target
+      );
+
+      const text = (from: string[]) =>
+        from.map((event) => event.replace(/^token:/, "")).join("");
+      const reset = events.indexOf("reset");
+
+      expect(calls).toBe(2);
+      expect(text(events.slice(0, reset))).toBe("Half a sen");
+      expect(text(events.slice(reset + 1))).toBe("Whole summary.");
+      expect(usage).toHaveLength(1);
+      expect(result.data!.keyPointTimestamps).toEqual([30]);
+    });
+
+    it("rejects malformed model output", async () => {
+      fake.setResponder(() => "not json");
+
+      await expect(
+        aiService.generateSummary(makeTranscript(4), video, DEFAULT_SUMMARY_OPTIONS, {}, target)
+      ).rejects.toBeInstanceOf(AppError);
+    });
+  });
+
+  describe("generateChapters", () => {
+    it("returns chapters covering the video from 0:00", async () => {
+      const result = await aiService.generateChapters(makeTranscript(12), video, {}, target);
+      const chapters = result.data!;
+
+      expect(chapters.map((chapter) => chapter.startSeconds)).toEqual([0, 120, 240]);
+      expect(chapters.map((chapter) => chapter.endSeconds)).toEqual([120, 240, 360]);
+    });
+
+    it("drops chapters that don't start on a transcript segment", async () => {
+      fake.setResponder(() =>
+        JSON.stringify({
+          chapters: [
+            { title: "Intro", start: "0:00" },
+            { title: "Made up", start: "59:00" },
+            { title: "Middle", start: "3:00" },
+          ],
+        })
+      );
+
+      const result = await aiService.generateChapters(makeTranscript(12), video, {}, target);
+
+      expect(result.data!.map((chapter) => chapter.title)).toEqual(["Intro", "Middle"]);
+    });
+  });
+
+  describe("answerQuestion", () => {
+    it("keeps only citations that land on the transcript", async () => {
+      const transcript = makeTranscript(6);
+      fake.setResponder((request) => {
+        expect(request.purpose).toBe("chat");
+        return JSON.stringify({
+          answer: "Caching is covered at [0:30].",
+          citations: ["0:30", "0:30", "42:00"],
+        });
+      });
+
+      const result = await aiService.answerQuestion(
+        {
+          videoMetadata: video,
+          fullSummary: "A video about caching.",
+          transcript,
+          excerpt: transcript,
+          history: [],
+          question: "Where is caching covered?",
+        },
+        {},
+        target
+      );
+
+      expect(result.data).toEqual({
+        answer: "Caching is covered at [0:30].",
+        citations: [30],
+      });
+    });
+  });
+
+  describe("translateSummary", () => {
+    const source = {
+      keyPoints: ["First point", "Second point"],
+      fullSummary: "The whole summary.",
+      tags: ["caching"],
+    };
+
+    it("translates every key point in order", async () => {
+      const result = await aiService.translateSummary(source, "es", {}, target);
+
+      expect(result.data!.keyPoints).toHaveLength(2);
+      expect(result.data!.keyPoints[0]).toMatch(/First point$/);
+      expect(result.data!.keyPoints[1]).toMatch(/Second point$/);
+      expect(result.data!.tags).toEqual(["caching"]);
+    });
+
+    it("rejects a translation that changes the number of key points", async () => {
+      fake.setResponder(() =>
+        JSON.stringify({ keyPoints: ["Solo uno"], fullSummary: "Resumen.", tags: [] })
+      );
+
+      await expect(
+        aiService.translateSummary(source, "es", {}, target)
+      ).rejects.toThrow("Invalid translation response structure");
+    });
+  });
+});
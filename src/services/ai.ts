@@ -0,0 +1,1042 @@
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { JsonStringFieldReader } from "../utils/jsonStream";
+import { withRetry } from "../utils/retry";
+import { mapWithConcurrency } from "../utils/concurrency";
+import {
+  parseTimestamp,
+  resolveSegmentStart,
+  segmentStartSeconds,
+} from "../utils/timestamps";
+import { languageName } from "../utils/language";
+import { llmService } from "./llm";
+import {
+  Chapter,
+  GenerationHooks,
+  LLMCallPurpose,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMTarget,
+  TranscriptSegment,
+  VideoMetadata,
+  OpenAISummaryResponse,
+  QuestionAnswer,
+  QuestionContext,
+  ServiceResponse,
+  SummaryAudience,
+  SummaryLength,
+  SummaryOptions,
+  SummaryStyle,
+  SummaryTranslation,
+  DEFAULT_SUMMARY_OPTIONS,
+  MAX_TRANSCRIPT_LENGTH,
+  MIN_CHAPTER_SECONDS,
+} from "../types";
+
+// Bump whenever the prompts change so cached results are regenerated
+export const SUMMARY_PROMPT_VERSION = "4";
+
+// Key points cite the transcript line they came from; plain strings are still accepted
+type RawKeyPoint = string | { text: string; timestamp?: string | number | null };
+
+interface RawSummaryResponse {
+  keyPoints: RawKeyPoint[];
+  fullSummary: string;
+  tags: string[];
+}
+
+// A chapter as the model returns it, before its start is checked against the transcript
+interface RawChapter {
+  title: string;
+  start: string | number;
+  summary?: string;
+}
+
+// An answer as the model returns it, before its citations are checked against the transcript
+interface RawAnswerResponse {
+  answer: string;
+  citations?: unknown[];
+}
+
+// Key point count and full summary size for each length option
+const LENGTH_GUIDELINES: Record<
+  SummaryLength,
+  { keyPoints: string; paragraphs: string; words: string }
+> = {
+  brief: { keyPoints: '3', paragraphs: 'a single paragraph', words: '80-150' },
+  standard: { keyPoints: '3-5', paragraphs: '2-3 paragraphs', words: '200-400' },
+  detailed: { keyPoints: '5-8', paragraphs: '4-6 paragraphs', words: '500-800' },
+};
+
+const STYLE_GUIDELINES: Record<SummaryStyle, string> = {
+  narrative: 'Write the full summary as flowing prose paragraphs',
+  bullet: 'Write the full summary as a bulleted list: one point per line, each starting with "- "',
+  executive: 'Write the full summary for a busy decision-maker: open with the bottom line, then the implications and any recommended actions',
+  technical: 'Write the full summary with technical precision: keep exact terminology, figures, versions and step-by-step details',
+};
+
+const AUDIENCE_GUIDELINES: Record<SummaryAudience, string> = {
+  general: 'Maintain the original meaning while making it more accessible',
+  beginner: 'Write for beginners: assume no prior knowledge and explain jargon in plain language',
+  intermediate: 'Write for readers with working knowledge of the topic: skip the basics',
+  expert: 'Write for experts: be dense and precise, and skip introductory explanations',
+};
+
+export class AIService {
+  // Generate summary from transcript
+  async generateSummary(
+    transcript: TranscriptSegment[],
+    videoMetadata: VideoMetadata,
+    options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS,
+    hooks: GenerationHooks = {},
+    target: LLMTarget = llmService.resolve()
+  ): Promise<ServiceResponse<OpenAISummaryResponse>> {
+    try {
+      const transcriptText = this.formatTranscriptForAI(transcript);
+
+      if (transcriptText.length > MAX_TRANSCRIPT_LENGTH) {
+        // Chunk large transcripts
+        return this.generateSummaryFromChunks(transcript, videoMetadata, options, hooks, target);
+      }
+
+      const prompt = this.createSummaryPrompt(transcriptText, videoMetadata, options);
+
+      const content = await this.createJsonCompletion(
+        target,
+        'You are an AI assistant specialized in creating concise, insightful summaries of YouTube videos. You extract key points, themes, and actionable insights from video transcripts.',
+        prompt,
+        'summary',
+        (completion) => this.reportUsage(hooks, target, completion, 'summary'),
+        hooks
+      );
+
+      const summaryData = this.parseSummaryResponse(content, transcript);
+
+      logger.info('Summary generated successfully', {
+        videoId: videoMetadata.videoId,
+        provider: target.provider,
+        model: target.model,
+        keyPointsCount: summaryData.keyPoints.length,
+        anchoredKeyPoints: summaryData.keyPointTimestamps.filter((t) => t !== null).length,
+        tagsCount: summaryData.tags.length,
+        transcriptLength: transcriptText.length,
+      });
+
+      return { success: true, data: summaryData };
+    } catch (error: unknown) {
+      logger.error('Summary generation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        videoId: videoMetadata.videoId,
+        provider: target.provider,
+        transcriptLength: transcript.length,
+      });
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Summary generation failed', 500);
+    }
+  }
+
+  // Handle large transcripts by chunking
+  private async generateSummaryFromChunks(
+    transcript: TranscriptSegment[],
+    videoMetadata: VideoMetadata,
+    options: SummaryOptions,
+    hooks: GenerationHooks,
+    target: LLMTarget
+  ): Promise<ServiceResponse<OpenAISummaryResponse>> {
+    try {
+      const chunks = this.chunkTranscript(transcript);
+      let chunksDone = 0;
+
+      // Summarize chunks in parallel; any chunk that still fails after retries fails the summary
+      const chunkSummaries = await mapWithConcurrency(
+        chunks,
+        config.llm.chunkConcurrency,
+        async (chunk, i) => {
+          const chunkText = this.formatTranscriptForAI(chunk);
+          const chunkPrompt = this.createChunkSummaryPrompt(chunkText, i + 1, chunks.length, options);
+
+          const chunkSummary = await this.completeWithRetry(
+            target,
+            {
+              messages: [
+                {
+                  role: 'system',
+                  content: 'You are an AI assistant that creates concise summaries of video transcript chunks.'
+                },
+                {
+                  role: 'user',
+                  content: chunkPrompt
+                }
+              ],
+              maxTokens: 500,
+              temperature: 0.3,
+              purpose: 'chunk',
+            },
+            (completion) => this.reportUsage(hooks, target, completion, 'chunk', i),
+            `chunk ${i + 1}/${chunks.length}`
+          );
+
+          chunksDone++;
+          hooks.onChunkProgress?.(chunksDone, chunks.length);
+
+          return chunkSummary;
+        }
+      );
+
+      // Combine chunk summaries into final summary
+      const combinedSummary = chunkSummaries.join('\n\n');
+      const finalPrompt = this.createFinalSummaryPrompt(combinedSummary, videoMetadata, options);
+
+      const finalContent = await this.createJsonCompletion(
+        target,
+        'You are an AI assistant that creates final summaries from multiple text chunks, extracting key points and themes.',
+        finalPrompt,
+        'final',
+        (completion) => this.reportUsage(hooks, target, completion, 'final'),
+        hooks
+      );
+
+      // Chunk summaries carry their [timestamp]s, so citations still resolve against the full transcript
+      const summaryData = this.parseSummaryResponse(finalContent, transcript);
+
+      logger.info('Chunked summary generated successfully', {
+        videoId: videoMetadata.videoId,
+        chunksProcessed: chunkSummaries.length,
+        keyPointsCount: summaryData.keyPoints.length,
+        anchoredKeyPoints: summaryData.keyPointTimestamps.filter((t) => t !== null).length,
+      });
+
+      return { success: true, data: summaryData };
+    } catch (error) {
+      logger.error('Chunked summary generation failed', { error, videoId: videoMetadata.videoId });
+      throw error instanceof AppError ? error : new AppError('Summary generation failed', 500);
+    }
+  }
+
+  // Split a transcript into titled chapters; long transcripts are outlined per chunk, then merged
+  async generateChapters(
+    transcript: TranscriptSegment[],
+    videoMetadata: VideoMetadata,
+    hooks: GenerationHooks = {},
+    target: LLMTarget = llmService.resolve()
+  ): Promise<ServiceResponse<Chapter[]>> {
+    try {
+      const transcriptText = this.formatTranscriptForAI(transcript);
+      const systemPrompt = 'You are an AI assistant that divides YouTube video transcripts into clear, well-titled chapters.';
+
+      let prompt: string;
+      if (transcriptText.length > MAX_TRANSCRIPT_LENGTH) {
+        const outline = await this.outlineChunks(transcript, hooks, target);
+        prompt = this.createMergeChaptersPrompt(outline, videoMetadata);
+      } else {
+        prompt = this.createChaptersPrompt(transcriptText, videoMetadata);
+      }
+
+      const content = await this.createJsonCompletion(
+        target,
+        systemPrompt,
+        prompt,
+        'chapters',
+        (completion) => this.reportUsage(hooks, target, completion, 'chapters')
+      );
+
+      const chapters = this.parseChaptersResponse(content, transcript, videoMetadata);
+
+      logger.info('Chapters generated successfully', {
+        videoId: videoMetadata.videoId,
+        provider: target.provider,
+        model: target.model,
+        chaptersCount: chapters.length,
+        transcriptLength: transcriptText.length,
+      });
+
+      return { success: true, data: chapters };
+    } catch (error) {
+      logger.error('Chapter generation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        videoId: videoMetadata.videoId,
+        provider: target.provider,
+        transcriptLength: transcript.length,
+      });
+      throw error instanceof AppError ? error : new AppError('Chapter generation failed', 500);
+    }
+  }
+
+  // List the topic changes in each chunk of a long transcript, in order
+  private async outlineChunks(
+    transcript: TranscriptSegment[],
+    hooks: GenerationHooks,
+    target: LLMTarget
+  ): Promise<string> {
+    const chunks = this.chunkTranscript(transcript);
+    let chunksDone = 0;
+
+    const outlines = await mapWithConcurrency(
+      chunks,
+      config.llm.chunkConcurrency,
+      async (chunk, i) => {
+        const chunkText = this.formatTranscriptForAI(chunk);
+
+        const outline = await this.completeWithRetry(
+          target,
+          {
+            messages: [
+              {
+                role: 'system',
+                content: 'You are an AI assistant that outlines the topics covered in video transcript chunks.'
+              },
+              {
+                role: 'user',
+                content: this.createChunkOutlinePrompt(chunkText, i + 1, chunks.length)
+              }
+            ],
+            maxTokens: 500,
+            temperature: 0.3,
+            purpose: 'chapters_chunk',
+          },
+          (completion) => this.reportUsage(hooks, target, completion, 'chapters_chunk', i),
+          `chapters chunk ${i + 1}/${chunks.length}`
+        );
+
+        chunksDone++;
+        hooks.onChunkProgress?.(chunksDone, chunks.length);
+
+        return outline;
+      }
+    );
+
+    return outlines.join('\n');
+  }
+
+  // Answer a follow-up question about a video from the relevant transcript excerpt
+  async answerQuestion(
+    context: QuestionContext,
+    hooks: GenerationHooks = {},
+    target: LLMTarget = llmService.resolve()
+  ): Promise<ServiceResponse<QuestionAnswer>> {
+    try {
+      const content = await this.completeWithRetry(
+        target,
+        {
+          messages: [
+            { role: 'system', content: this.createQuestionSystemPrompt(context) },
+            ...context.history,
+            { role: 'user', content: context.question },
+          ],
+          maxTokens: 800,
+          temperature: 0.2,
+          json: true,
+          purpose: 'chat',
+        },
+        (completion) => this.reportUsage(hooks, target, completion, 'chat'),
+        'chat'
+      );
+
+      let response: unknown;
+      try {
+        response = JSON.parse(content);
+      } catch (parseError) {
+        logger.error('Failed to parse AI response', { responseText: content, parseError });
+        throw new AppError('Invalid response format from AI', 500);
+      }
+
+      if (!this.validateAnswerResponse(response)) {
+        throw new AppError('Invalid answer response structure', 500);
+      }
+
+      // Keep only citations that land on a real segment, once each
+      const citations: number[] = [];
+      for (const cited of response.citations ?? []) {
+        const start =
+          typeof cited === 'string' || typeof cited === 'number'
+            ? resolveSegmentStart(context.transcript, cited)
+            : null;
+        if (start !== null && !citations.includes(start)) {
+          citations.push(start);
+        }
+      }
+
+      return { success: true, data: { answer: response.answer.trim(), citations } };
+    } catch (error) {
+      logger.error('Question answering failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        videoId: context.videoMetadata.videoId,
+        provider: target.provider,
+      });
+      throw error instanceof AppError ? error : new AppError('Failed to answer question', 500);
+    }
+  }
+
+  // Translate a finished summary's text; key points keep their order so timestamps still line up
+  async translateSummary(
+    source: SummaryTranslation,
+    language: string,
+    hooks: GenerationHooks = {},
+    target: LLMTarget = llmService.resolve()
+  ): Promise<ServiceResponse<SummaryTranslation>> {
+    try {
+      const content = await this.completeWithRetry(
+        target,
+        {
+          messages: [
+            {
+              role: 'system',
+              content: 'You are a professional translator. You translate video summaries faithfully, keeping their meaning, tone and formatting.'
+            },
+            {
+              role: 'user',
+              content: this.createTranslationPrompt(source, language)
+            }
+          ],
+          maxTokens: config.openai.maxTokens,
+          temperature: 0.2,
+          json: true,
+          purpose: 'translation',
+        },
+        (completion) => this.reportUsage(hooks, target, completion, 'translation'),
+        'translation'
+      );
+
+      let response: unknown;
+      try {
+        response = JSON.parse(content);
+      } catch (parseError) {
+        logger.error('Failed to parse AI response', { responseText: content, parseError });
+        throw new AppError('Invalid response format from AI', 500);
+      }
+
+      // Every key point must come back, in order, so the source's timestamps still apply
+      if (
+        !this.validateTranslationResponse(response) ||
+        response.keyPoints.length !== source.keyPoints.length
+      ) {
+        throw new AppError('Invalid translation response structure', 500);
+      }
+
+      logger.info('Summary translated successfully', {
+        language,
+        provider: target.provider,
+        model: target.model,
+        keyPointsCount: response.keyPoints.length,
+      });
+
+      return {
+        success: true,
+        data: {
+          keyPoints: response.keyPoints,
+          fullSummary: response.fullSummary,
+          tags: response.tags,
+        },
+      };
+    } catch (error) {
+      logger.error('Summary translation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        language,
+        provider: target.provider,
+      });
+      throw error instanceof AppError ? error : new AppError('Summary translation failed', 500);
+    }
+  }
+
+  // Request a JSON completion with the same retries as completeWithRetry. With onToken, stream it
+  // and report fullSummary text as it arrives; onTokenReset says to drop a failed attempt's text.
+  private async createJsonCompletion(
+    target: LLMTarget,
+    systemPrompt: string,
+    userPrompt: string,
+    purpose: LLMCallPurpose,
+    onCompletion: (completion: LLMCompletionResult) => void,
+    hooks: GenerationHooks = {}
+  ): Promise<string> {
+    const { onToken, onTokenReset } = hooks;
+    let reader = new JsonStringFieldReader('fullSummary');
+    let streamed = false;
+
+    return this.completeWithRetry(
+      target,
+      {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        maxTokens: config.openai.maxTokens,
+        temperature: 0.3,
+        json: true,
+        purpose,
+        ...(onToken && {
+          onDelta: (delta: string) => {
+            const text = reader.push(delta);
+            if (text) {
+              streamed = true;
+              onToken(text);
+            }
+          },
+        }),
+      },
+      onCompletion,
+      purpose,
+      () => {
+        reader = new JsonStringFieldReader('fullSummary');
+        if (streamed) {
+          streamed = false;
+          onTokenReset?.();
+        }
+      }
+    );
+  }
+
+  // Run a completion, retrying transient errors and empty responses
+  private async completeWithRetry(
+    target: LLMTarget,
+    request: Omit<LLMCompletionRequest, 'model'>,
+    onCompletion: (completion: LLMCompletionResult) => void,
+    label: string,
+    beforeRetry?: () => void
+  ): Promise<string> {
+    return withRetry(
+      async () => {
+        const completion = await llmService.complete(target, request);
+        // Every attempt is billed, including empty ones
+        onCompletion(completion);
+
+        if (!completion.content?.trim()) {
+          throw new AppError('Empty response from AI provider', 502, true, undefined, undefined, true);
+        }
+
+        return completion.content;
+      },
+      {
+        retries: config.llm.maxRetries,
+        baseDelayMs: config.llm.retryBaseDelayMs,
+        maxDelayMs: config.llm.retryMaxDelayMs,
+        shouldRetry: (error) => this.isTransientError(error),
+        getRetryAfterMs: (error) =>
+          error instanceof AppError ? error.retryAfterMs : undefined,
+        onRetry: (error, attempt, delayMs) => {
+          logger.warn('AI call failed, retrying', {
+            call: label,
+            provider: target.provider,
+            attempt,
+            delayMs,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          beforeRetry?.();
+        },
+      }
+    );
+  }
+
+  // Rate limits and errors the provider marked retryable; unknown errors get another try too
+  private isTransientError(error: unknown): boolean {
+    if (error instanceof AppError) {
+      return error.retryable === true || error.statusCode === 429;
+    }
+
+    return true;
+  }
+
+  // Pass a call's token usage to the caller, if the provider reported it
+  private reportUsage(
+    hooks: GenerationHooks,
+    target: LLMTarget,
+    completion: LLMCompletionResult,
+    purpose: LLMCallPurpose,
+    chunkIndex?: number
+  ): void {
+    if (!completion.usage) {
+      return;
+    }
+
+    hooks.onUsage?.({
+      ...completion.usage,
+      provider: target.provider,
+      model: target.model,
+      purpose,
+      chunkIndex,
+    });
+  }
+
+  // Chunk transcript into manageable pieces
+  private chunkTranscript(transcript: TranscriptSegment[]): TranscriptSegment[][] {
+    const chunks: TranscriptSegment[][] = [];
+    const maxChunkLength = Math.floor(MAX_TRANSCRIPT_LENGTH / 3); // Conservative chunking
+
+    let currentChunk: TranscriptSegment[] = [];
+    let currentLength = 0;
+
+    for (const segment of transcript) {
+      const segmentLength = segment.text.length;
+
+      if (currentLength + segmentLength > maxChunkLength && currentChunk.length > 0) {
+        chunks.push([...currentChunk]);
+        currentChunk = [segment];
+        currentLength = segmentLength;
+      } else {
+        currentChunk.push(segment);
+        currentLength += segmentLength;
+      }
+    }
+
+    if (currentChunk.length > 0) {
+      chunks.push(currentChunk);
+    }
+
+    return chunks;
+  }
+
+  // Format transcript segments for AI processing
+  private formatTranscriptForAI(transcript: TranscriptSegment[]): string {
+    return transcript
+      .map(segment => `[${segment.timestamp}] ${segment.text}`)
+      .join('\n');
+  }
+
+  // Create main summary prompt
+  private createSummaryPrompt(
+    transcriptText: string,
+    videoMetadata: VideoMetadata,
+    options: SummaryOptions
+  ): string {
+    return `
+Please analyze this YouTube video transcript and create a comprehensive summary.
+
+Video Title: "${videoMetadata.title}"
+Channel: ${videoMetadata.channelName}
+Duration: ${videoMetadata.duration || 'Unknown'}
+
+Transcript:
+${transcriptText}
+
+Please provide a JSON response with the following structure:
+{
+  "keyPoints": [
+    { "text": "First key insight or main point (be specific and actionable)", "timestamp": "0:42" },
+    { "text": "Second key insight or main point", "timestamp": "3:15" },
+    { "text": "Third key insight or main point", "timestamp": "7:08" },
+    { "text": "Fourth key insight or main point (if applicable)", "timestamp": "12:34" },
+    { "text": "Fifth key insight or main point (if applicable)", "timestamp": null }
+  ],
+  "fullSummary": "A summary that captures the essence, main arguments, and conclusions of the video, written as described in the guidelines. Focus on what viewers would find most valuable and actionable.",
+  "tags": [
+    "relevant-topic-1",
+    "relevant-topic-2",
+    "relevant-topic-3",
+    "relevant-topic-4",
+    "relevant-topic-5"
+  ]
+}
+
+Guidelines:
+${this.createOptionGuidelines(options)}
+- Key points should be specific, actionable, and valuable to the viewer
+- For each key point, set "timestamp" to the [timestamp] of the transcript line where it is first discussed, copied exactly; use null if it has no single clear source
+- Tags should be relevant keywords that categorize the content
+- Focus on practical value and main takeaways
+`.trim();
+  }
+
+  // Create chunk summary prompt
+  private createChunkSummaryPrompt(
+    chunkText: string,
+    chunkNumber: number,
+    totalChunks: number,
+    options: SummaryOptions
+  ): string {
+    return `
+This is chunk ${chunkNumber} of ${totalChunks} from a YouTube video transcript.
+
+Transcript Chunk:
+${chunkText}
+
+Please provide a concise summary of the key points and important information in this chunk. Focus on:
+- Main ideas and concepts discussed
+- Important details or insights
+- Any conclusions or recommendations${options.focus ? `\n- Anything related to ${JSON.stringify(options.focus)}` : ''}
+
+Keep the summary to ${options.length === 'detailed' ? '4-5' : '2-3'} sentences maximum. Start each sentence with the [timestamp] of the transcript line it is based on, copied exactly.
+`.trim();
+  }
+
+  // Create final summary prompt for chunked content
+  private createFinalSummaryPrompt(
+    combinedSummary: string,
+    videoMetadata: VideoMetadata,
+    options: SummaryOptions
+  ): string {
+    return `
+Please create a comprehensive summary from these chunk summaries of a YouTube video.
+
+Video Title: "${videoMetadata.title}"
+Channel: ${videoMetadata.channelName}
+
+Chunk Summaries:
+${combinedSummary}
+
+Please provide a JSON response with the following structure:
+{
+  "keyPoints": [
+    { "text": "First key insight or main point", "timestamp": "0:42" },
+    { "text": "Second key insight or main point", "timestamp": "14:05" },
+    { "text": "Third key insight or main point", "timestamp": "31:50" },
+    { "text": "Fourth key insight or main point (if applicable)", "timestamp": "1:02:17" },
+    { "text": "Fifth key insight or main point (if applicable)", "timestamp": null }
+  ],
+  "fullSummary": "A summary that synthesizes all the chunk summaries into a coherent overview of the entire video, written as described in the guidelines",
+  "tags": [
+    "relevant-topic-1",
+    "relevant-topic-2",
+    "relevant-topic-3",
+    "relevant-topic-4",
+    "relevant-topic-5"
+  ]
+}
+
+Guidelines:
+${this.createOptionGuidelines(options)}
+- Synthesize the key points from across the chunk summaries
+- For each key point, set "timestamp" to the [timestamp] from the chunk summaries that best supports it, copied exactly; use null if there is none
+- Do not put timestamps in the full summary text
+- The full summary should cover the entire video
+- Include relevant tags for categorization
+- Focus on the most valuable insights and takeaways
+`.trim();
+  }
+
+  // Create the system prompt for follow-up questions
+  private createQuestionSystemPrompt(context: QuestionContext): string {
+    const partial = context.excerpt.length < context.transcript.length;
+
+    return `
+You answer questions about a YouTube video using only its transcript.
+
+Video Title: "${context.videoMetadata.title}"
+Channel: ${context.videoMetadata.channelName}
+
+Summary of the whole video:
+${context.fullSummary}
+
+${partial ? 'Transcript excerpts relevant to the question' : 'Transcript'}:
+${this.formatTranscriptForAI(context.excerpt)}
+
+Reply with JSON in this structure:
+{
+  "answer": "Your answer, citing moments inline like [3:15].",
+  "citations": ["3:15", "7:02"]
+}
+
+Guidelines:
+- Base the answer on the transcript; if it doesn't cover the question, say so rather than guessing
+- Cite the [timestamp] of each transcript line you rely on, copied exactly, both inline and in "citations"
+- Keep answers concise: a few sentences, or a short list when the question asks for one
+- Follow-up questions may refer to earlier answers in the conversation
+- Answer in the language the question is asked in
+`.trim();
+  }
+
+  // Create translation prompt
+  private createTranslationPrompt(source: SummaryTranslation, language: string): string {
+    return `
+Please translate this YouTube video summary into ${languageName(language)}.
+
+Summary:
+${JSON.stringify(source, null, 2)}
+
+Please provide a JSON response with exactly the same structure:
+{
+  "keyPoints": ["...", "..."],
+  "fullSummary": "...",
+  "tags": ["...", "..."]
+}
+
+Guidelines:
+- Translate every key point, in the same order; return exactly ${source.keyPoints.length} key points
+- Keep the full summary's paragraphs, bullets and line breaks
+- Translate tags as short lowercase keywords; keep product names, brand names and code as they are
+- Do not add, drop or summarise content
+`.trim();
+  }
+
+  // Create chapters prompt
+  private createChaptersPrompt(transcriptText: string, videoMetadata: VideoMetadata): string {
+    return `
+Please divide this YouTube video transcript into chapters.
+
+Video Title: "${videoMetadata.title}"
+Channel: ${videoMetadata.channelName}
+Duration: ${videoMetadata.duration || 'Unknown'}
+
+Transcript:
+${transcriptText}
+
+Please provide a JSON response with the following structure:
+{
+  "chapters": [
+    { "title": "Intro", "start": "0:00", "summary": "One sentence describing what this chapter covers." },
+    { "title": "Short chapter title", "start": "2:41", "summary": "One sentence describing what this chapter covers." }
+  ]
+}
+
+Guidelines:
+- Start a new chapter wherever the video moves to a new topic or section
+- Aim for one chapter every few minutes; very short videos may only need 3 chapters
+- Set "start" to the [timestamp] of the transcript line where the chapter begins, copied exactly
+- The first chapter starts at the first transcript line
+- Titles are short (2-6 words), descriptive and in the style of YouTube chapter titles
+- Each summary is a single sentence
+`.trim();
+  }
+
+  // Create chunk outline prompt for chaptering long transcripts
+  private createChunkOutlinePrompt(chunkText: string, chunkNumber: number, totalChunks: number): string {
+    return `
+This is chunk ${chunkNumber} of ${totalChunks} from a YouTube video transcript.
+
+Transcript Chunk:
+${chunkText}
+
+List each point in this chunk where the video moves to a new topic, one per line, in this format:
+[timestamp] Short topic title - one sentence describing the topic
+
+Copy the [timestamp] of the transcript line where the topic begins exactly. If the chunk opens mid-topic, start with that topic at the chunk's first line. List at most 5 topics.
+`.trim();
+  }
+
+  // Create chapters prompt from chunk outlines
+  private createMergeChaptersPrompt(outline: string, videoMetadata: VideoMetadata): string {
+    return `
+Please create the chapter list for a YouTube video from this outline of its topics, in order.
+
+Video Title: "${videoMetadata.title}"
+Channel: ${videoMetadata.channelName}
+Duration: ${videoMetadata.duration || 'Unknown'}
+
+Topic Outline:
+${outline}
+
+Please provide a JSON response with the following structure:
+{
+  "chapters": [
+    { "title": "Intro", "start": "0:00", "summary": "One sentence describing what this chapter covers." },
+    { "title": "Short chapter title", "start": "14:05", "summary": "One sentence describing what this chapter covers." }
+  ]
+}
+
+Guidelines:
+- Merge consecutive outline entries that continue the same topic into one chapter
+- Set "start" to the [timestamp] of the outline entry where the chapter begins, copied exactly
+- The first chapter starts at the first outline entry
+- Titles are short (2-6 words), descriptive and in the style of YouTube chapter titles
+- Each summary is a single sentence
+`.trim();
+  }
+
+  // Guideline lines for the requested length, style, audience and focus
+  private createOptionGuidelines(options: SummaryOptions): string {
+    const length = LENGTH_GUIDELINES[options.length];
+    const lines = [
+      `Extract ${length.keyPoints} key points that represent the most important insights`,
+      options.style === 'bullet'
+        ? `Full summary should be ${length.words} words in total`
+        : `Full summary should be ${length.paragraphs} (${length.words} words)`,
+      STYLE_GUIDELINES[options.style],
+      AUDIENCE_GUIDELINES[options.audience],
+      `Write the key points, full summary and tags in ${languageName(options.language)}, whatever the language of the transcript`,
+    ];
+
+    if (options.focus) {
+      lines.push(
+        `Focus on ${JSON.stringify(options.focus)}: prioritise key points and summary content about it, and say briefly if the video barely covers it`
+      );
+    }
+
+    return lines.map((line) => `- ${line}`).join('\n');
+  }
+
+  // Parse, validate and anchor a summary JSON response
+  private parseSummaryResponse(
+    responseText: string | null,
+    transcript: TranscriptSegment[]
+  ): OpenAISummaryResponse {
+    if (!responseText) {
+      throw new AppError('Empty response from AI provider', 500);
+    }
+
+    let response: unknown;
+    try {
+      response = JSON.parse(responseText);
+    } catch (parseError) {
+      logger.error('Failed to parse AI response', { responseText, parseError });
+      throw new AppError('Invalid response format from AI', 500);
+    }
+
+    if (!this.validateSummaryResponse(response)) {
+      throw new AppError('Invalid summary response structure', 500);
+    }
+
+    // Drop citations that don't land on a real segment rather than link to the wrong moment
+    return {
+      keyPoints: response.keyPoints.map((point) =>
+        typeof point === 'string' ? point : point.text
+      ),
+      keyPointTimestamps: response.keyPoints.map((point) =>
+        typeof point === 'string' ? null : resolveSegmentStart(transcript, point.timestamp)
+      ),
+      fullSummary: response.fullSummary,
+      tags: response.tags,
+    };
+  }
+
+  // Validate AI response structure
+  private validateSummaryResponse(response: any): response is RawSummaryResponse {
+    return (
+      response &&
+      Array.isArray(response.keyPoints) &&
+      response.keyPoints.length > 0 &&
+      response.keyPoints.every(
+        (point: any) =>
+          typeof point === 'string' ||
+          (point && typeof point.text === 'string' && point.text.length > 0)
+      ) &&
+      typeof response.fullSummary === 'string' &&
+      response.fullSummary.length > 0 &&
+      Array.isArray(response.tags) &&
+      response.tags.every((tag: any) => typeof tag === 'string')
+    );
+  }
+
+  // Parse a chapters JSON response and anchor it to the transcript as contiguous sections
+  private parseChaptersResponse(
+    responseText: string | null,
+    transcript: TranscriptSegment[],
+    videoMetadata: VideoMetadata
+  ): Chapter[] {
+    if (!responseText) {
+      throw new AppError('Empty response from AI provider', 500);
+    }
+
+    let response: unknown;
+    try {
+      response = JSON.parse(responseText);
+    } catch (parseError) {
+      logger.error('Failed to parse AI response', { responseText, parseError });
+      throw new AppError('Invalid response format from AI', 500);
+    }
+
+    if (!this.validateChaptersResponse(response)) {
+      throw new AppError('Invalid chapters response structure', 500);
+    }
+
+    // Chapters whose start doesn't land on a real segment are dropped rather than guessed
+    const anchored = response.chapters
+      .map((chapter) => ({ chapter, start: resolveSegmentStart(transcript, chapter.start) }))
+      .filter((item): item is { chapter: RawChapter; start: number } => item.start !== null)
+      .sort((a, b) => a.start - b.start);
+
+    const kept: { chapter: RawChapter; start: number }[] = [];
+    for (const item of anchored) {
+      const previous = kept[kept.length - 1];
+
+      // Chapters must cover the video from 0:00
+      if (!previous) {
+        kept.push({ ...item, start: 0 });
+      } else if (item.start - previous.start >= MIN_CHAPTER_SECONDS) {
+        kept.push(item);
+      }
+    }
+
+    if (kept.length === 0) {
+      throw new AppError('No chapters matched the transcript', 500);
+    }
+
+    const videoEnd = this.getVideoEnd(transcript, videoMetadata);
+
+    return kept.map((item, i) => ({
+      title: item.chapter.title.replace(/\s+/g, ' ').trim(),
+      startSeconds: item.start,
+      endSeconds: i + 1 < kept.length ? kept[i + 1].start : Math.max(videoEnd, item.start),
+      summary: item.chapter.summary?.trim() ?? '',
+    }));
+  }
+
+  // Validate chapters response structure
+  private validateChaptersResponse(response: unknown): response is { chapters: RawChapter[] } {
+    const candidate = response as { chapters?: unknown } | null;
+    return (
+      !!candidate &&
+      Array.isArray(candidate.chapters) &&
+      candidate.chapters.length > 0 &&
+      candidate.chapters.every((item) => {
+        const chapter = item as Partial<Record<keyof RawChapter, unknown>> | null;
+        return (
+          !!chapter &&
+          typeof chapter.title === 'string' &&
+          chapter.title.trim().length > 0 &&
+          (typeof chapter.start === 'string' || typeof chapter.start === 'number') &&
+          (chapter.summary === undefined || typeof chapter.summary === 'string')
+        );
+      })
+    );
+  }
+
+  // Validate answer response structure
+  private validateAnswerResponse(response: unknown): response is RawAnswerResponse {
+    const candidate = response as Partial<Record<keyof RawAnswerResponse, unknown>> | null;
+    return (
+      !!candidate &&
+      typeof candidate.answer === 'string' &&
+      candidate.answer.trim().length > 0 &&
+      (candidate.citations === undefined || Array.isArray(candidate.citations))
+    );
+  }
+
+  // Validate translation response structure
+  private validateTranslationResponse(response: unknown): response is SummaryTranslation {
+    const candidate = response as Partial<Record<keyof SummaryTranslation, unknown>> | null;
+    return (
+      !!candidate &&
+      Array.isArray(candidate.keyPoints) &&
+      candidate.keyPoints.every((point) => typeof point === 'string' && point.length > 0) &&
+      typeof candidate.fullSummary === 'string' &&
+      candidate.fullSummary.length > 0 &&
+      Array.isArray(candidate.tags) &&
+      candidate.tags.every((tag) => typeof tag === 'string')
+    );
+  }
+
+  // Where the last chapter ends: the transcript's end, or the video duration if that's later
+  private getVideoEnd(transcript: TranscriptSegment[], videoMetadata: VideoMetadata): number {
+    const last = transcript[transcript.length - 1];
+    const candidates = [
+      last?.endSeconds,
+      last ? segmentStartSeconds(last) : null,
+      videoMetadata.duration ? parseTimestamp(videoMetadata.duration) : null,
+    ].filter((value): value is number => typeof value === 'number');
+
+    return candidates.length > 0 ? Math.floor(Math.max(...candidates)) : 0;
+  }
+
+  // Test the default provider's connection
+  async testConnection(): Promise<ServiceResponse<boolean>> {
+    try {
+      const completion = await llmService.complete(llmService.resolve(), {
+        messages: [{ role: 'user', content: 'Hello' }],
+        maxTokens: 5,
+        temperature: 0,
+      });
+
+      const hasResponse = !!completion.content;
+
+      return { success: true, data: hasResponse };
+    } catch (error) {
+      logger.error('AI provider connection test failed', { error });
+      return { success: false, error: 'AI provider connection failed' };
+    }
+  }
+}
+
+export const aiService = new AIService();
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { ApiKey } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { generateSecureToken, hashToken } from "../utils/tokens";
+import {
+  ApiKeyInfo,
+  CreatedApiKey,
+  CreateApiKeyDto,
+  ServiceResponse,
+} from "../types";
+
+export const API_KEY_PREFIX = "kng_";
+const API_KEY_DISPLAY_LENGTH = 12;
+const MAX_API_KEYS_PER_USER = 10;
+
+// Only bump lastUsedAt this often to avoid a write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export class ApiKeyService {
+  // Create a new API key; the plaintext key is only returned here
+  async createApiKey(
+    userId: string,
+    data: CreateApiKeyDto
+  ): Promise<ServiceResponse<CreatedApiKey>> {
+    try {
+      const activeKeys = await prisma.apiKey.count({
+        where: { userId, revokedAt: null },
+      });
+
+      if (activeKeys >= MAX_API_KEYS_PER_USER) {
+        throw new AppError(
+          `You can have at most ${MAX_API_KEYS_PER_USER} active API keys`,
+          400
+        );
+      }
+
+      const key = `${API_KEY_PREFIX}${generateSecureToken(24)}`;
+
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          userId,
+          name: data.name,
+          scope: data.scope ?? "READ_ONLY",
+          prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+          keyHash: hashToken(key),
+          expiresAt: data.expiresInDays
+            ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+            : null,
+        },
+      });
+
+      logger.info("API key created", {
+        userId,
+        apiKeyId: apiKey.id,
+        scope: apiKey.scope,
+      });
+
+      return {
+        success: true,
+        data: { ...this.formatApiKey(apiKey), key },
+      };
+    } catch (error) {
+      logger.error("Create API key failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to create API key", 500);
+    }
+  }
+
+  // List a user's API keys (never includes the key itself)
+  async getApiKeys(userId: string): Promise<ServiceResponse<ApiKeyInfo[]>> {
+    try {
+      const apiKeys = await prisma.apiKey.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+      });
+
+      return {
+        success: true,
+        data: apiKeys.map((apiKey) => this.formatApiKey(apiKey)),
+      };
+    } catch (error) {
+      logger.error("Get API keys failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw new AppError("Failed to get API keys", 500);
+    }
+  }
+
+  // Revoke an API key
+  async revokeApiKey(
+    userId: string,
+    apiKeyId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const result = await prisma.apiKey.updateMany({
+        where: { id: apiKeyId, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (result.count === 0) {
+        throw new AppError("API key not found", 404);
+      }
+
+      logger.info("API key revoked", { userId, apiKeyId });
+      return { success: true };
+    } catch (error) {
+      logger.error("Revoke API key failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        apiKeyId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to revoke API key", 500);
+    }
+  }
+
+  // Resolve a presented key to its active record, or null if unusable
+  async findActiveKey(key: string): Promise<ApiKey | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+    });
+
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt < new Date())
+    ) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+    ) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date() },
+      });
+    }
+
+    return apiKey;
+  }
+
+  // Format API key for API response
+  private formatApiKey(apiKey: ApiKey): ApiKeyInfo {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scope: apiKey.scope,
+      lastUsedAt: apiKey.lastUsedAt?.toISOString() || null,
+      expiresAt: apiKey.expiresAt?.toISOString() || null,
+      revokedAt: apiKey.revokedAt?.toISOString() || null,
+      createdAt: apiKey.createdAt.toISOString(),
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
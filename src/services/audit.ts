@@ -0,0 +1,159 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  AuditAction,
+  AuditContext,
+  AuditEventInfo,
+  AuditEventInput,
+  AuditQueryParams,
+  PaginatedResponse,
+  ServiceResponse,
+} from "../types";
+
+// Actions shown to users in their own security activity feed
+const SECURITY_ACTIONS: AuditAction[] = [
+  "auth.login",
+  "auth.login_failed",
+  "auth.logout",
+  "auth.password_reset",
+  "auth.email_verified",
+  "auth.two_factor_enabled",
+  "auth.two_factor_disabled",
+  "auth.two_factor_recovery_codes_regenerated",
+  "auth.session_revoked",
+  "auth.tokens_revoked",
+  "auth.token_reuse_detected",
+  "auth.account_locked",
+  "auth.account_unlocked",
+  "user.email_verified",
+  "user.disabled",
+  "user.enabled",
+];
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+export class AuditService {
+  // Append an event; never throws so audited actions aren't blocked by logging failures.
+  // Pass a transaction client to record the event only if the surrounding writes commit.
+  async record(
+    event: AuditEventInput,
+    context: AuditContext = {},
+    client: PrismaClientLike = prisma
+  ): Promise<void> {
+    try {
+      await client.auditEvent.create({
+        data: {
+          action: event.action,
+          actorId: context.actorId ?? null,
+          targetUserId: event.targetUserId ?? null,
+          targetType: event.targetType ?? null,
+          targetId: event.targetId ?? null,
+          metadata: event.metadata as Prisma.InputJsonValue | undefined,
+          ipAddress: context.ipAddress ?? null,
+          userAgent: context.userAgent?.slice(0, 512) ?? null,
+        },
+      });
+    } catch (error) {
+      logger.error("Audit event write failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        action: event.action,
+        targetUserId: event.targetUserId,
+      });
+    }
+  }
+
+  // Query the full audit log (admin)
+  async getEvents(
+    params: AuditQueryParams = {}
+  ): Promise<ServiceResponse<PaginatedResponse<AuditEventInfo>>> {
+    const {
+      action,
+      actorId,
+      targetUserId,
+      startDate,
+      endDate,
+      ...pagination
+    } = params;
+
+    return this.queryEvents(
+      {
+        ...(action && { action }),
+        ...(actorId && { actorId }),
+        ...(targetUserId && { targetUserId }),
+        ...((startDate || endDate) && {
+          createdAt: {
+            ...(startDate && { gte: new Date(startDate) }),
+            ...(endDate && { lte: new Date(endDate) }),
+          },
+        }),
+      },
+      pagination
+    );
+  }
+
+  // Security-relevant events affecting one user
+  async getSecurityActivity(
+    userId: string,
+    params: Pick<AuditQueryParams, "page" | "limit"> = {}
+  ): Promise<ServiceResponse<PaginatedResponse<AuditEventInfo>>> {
+    return this.queryEvents(
+      { targetUserId: userId, action: { in: SECURITY_ACTIONS } },
+      params
+    );
+  }
+
+  private async queryEvents(
+    where: Prisma.AuditEventWhereInput,
+    params: Pick<AuditQueryParams, "page" | "limit">
+  ): Promise<ServiceResponse<PaginatedResponse<AuditEventInfo>>> {
+    try {
+      const { page = 1, limit = 20 } = params;
+
+      const [total, events] = await Promise.all([
+        prisma.auditEvent.count({ where }),
+        prisma.auditEvent.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      const response: PaginatedResponse<AuditEventInfo> = {
+        data: events.map((event) => ({
+          id: event.id,
+          action: event.action,
+          actorId: event.actorId,
+          targetUserId: event.targetUserId,
+          targetType: event.targetType,
+          targetId: event.targetId,
+          metadata: event.metadata as Record<string, unknown> | null,
+          ipAddress: event.ipAddress,
+          userAgent: event.userAgent,
+          createdAt: event.createdAt.toISOString(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+
+      return { success: true, data: response };
+    } catch (error) {
+      logger.error("Audit event query failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw new AppError("Failed to get audit events", 500);
+    }
+  }
+}
+
+export const auditService = new AuditService();
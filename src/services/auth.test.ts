@@ -0,0 +1,141 @@
+import jwt from "jsonwebtoken";
+import { config } from "../config";
+import { prisma } from "../config/database";
+import { auditService } from "./audit";
+import { authService } from "./auth";
+import { SessionContext } from "../types";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    refreshToken: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("./audit", () => ({ auditService: { record: jest.fn() } }));
+
+const refreshTokens = prisma.refreshToken as unknown as {
+  findUnique: jest.Mock;
+  updateMany: jest.Mock;
+  create: jest.Mock;
+};
+const transaction = prisma.$transaction as unknown as jest.Mock;
+const record = auditService.record as jest.Mock;
+
+const context: SessionContext = { ipAddress: "203.0.113.7", clientType: "WEB_APP" };
+
+const user = {
+  id: "user-1",
+  email: "ada@example.com",
+  name: "Ada",
+  avatar: null,
+  plan: "FREE",
+  credits: 10,
+  emailVerified: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastLoginAt: null,
+  supabaseId: null,
+  role: "USER",
+  disabledAt: null,
+};
+
+const issue = (tokenId: string) =>
+  jwt.sign({ userId: user.id, tokenId }, config.jwt.refreshSecret);
+
+const storedToken = (
+  token: string,
+  overrides: { revoked?: boolean; replacedById?: string | null } = {}
+) => ({
+  id: "token-1",
+  token,
+  userId: user.id,
+  familyId: "family-1",
+  expiresAt: new Date(Date.now() + 60_000),
+  revoked: false,
+  replacedById: null,
+  userAgent: null,
+  ipAddress: null,
+  clientType: "WEB_APP",
+  user,
+  ...overrides,
+});
+
+describe("AuthService.refreshToken", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transaction.mockImplementation((run: (tx: typeof prisma) => unknown) =>
+      run(prisma)
+    );
+    refreshTokens.updateMany.mockResolvedValue({ count: 1 });
+    refreshTokens.create.mockResolvedValue({});
+  });
+
+  it("rotates the token within its family", async () => {
+    const token = issue("token-1");
+    refreshTokens.findUnique.mockResolvedValue(storedToken(token));
+
+    const result = await authService.refreshToken(token, context);
+
+    expect(result.data?.refreshToken).not.toBe(token);
+    expect(refreshTokens.updateMany).toHaveBeenCalledWith({
+      where: { id: "token-1", revoked: false },
+      data: { revoked: true, replacedById: expect.any(String) },
+    });
+    expect(refreshTokens.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ familyId: "family-1", userId: user.id }),
+    });
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("revokes the whole family when a rotated-out token is reused", async () => {
+    const token = issue("token-1");
+    refreshTokens.findUnique.mockResolvedValue(
+      storedToken(token, { revoked: true, replacedById: "token-2" })
+    );
+
+    await expect(authService.refreshToken(token, context)).rejects.toMatchObject({
+      statusCode: 401,
+      code: "TOKEN_REUSE_DETECTED",
+    });
+    expect(refreshTokens.updateMany).toHaveBeenCalledWith({
+      where: { familyId: "family-1", revoked: false },
+      data: { revoked: true },
+    });
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "auth.token_reuse_detected" }),
+      expect.anything()
+    );
+  });
+
+  it("rejects a token revoked by logout without flagging reuse", async () => {
+    const token = issue("token-1");
+    refreshTokens.findUnique.mockResolvedValue(
+      storedToken(token, { revoked: true })
+    );
+
+    await expect(authService.refreshToken(token, context)).rejects.toMatchObject({
+      statusCode: 401,
+      code: undefined,
+    });
+    expect(refreshTokens.updateMany).not.toHaveBeenCalled();
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("does not issue a successor when the token is revoked mid-rotation", async () => {
+    const token = issue("token-1");
+    refreshTokens.findUnique
+      .mockResolvedValueOnce(storedToken(token))
+      .mockResolvedValueOnce({ replacedById: null });
+    refreshTokens.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(authService.refreshToken(token, context)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+    expect(refreshTokens.create).not.toHaveBeenCalled();
+    expect(record).not.toHaveBeenCalled();
+  });
+});
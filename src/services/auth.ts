@@ -2,11 +2,19 @@ import bcrypt from "bcryptjs";
 import jwt, { SignOptions } from "jsonwebtoken";
 import { v4 as uuidv4 } from "uuid";
 import { createClient } from "@supabase/supabase-js";
+import { UserPlan } from "@prisma/client";
 import { prisma } from "../config/database";
 import { config } from "../config";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
+import { generateSecureToken, hashToken } from "../utils/tokens";
+import { encryptSecret, decryptSecret } from "../utils/encryption";
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from "../utils/totp";
+import { emailService } from "./email";
+import { lockoutService } from "./lockout";
+import { auditService } from "./audit";
 import {
+  AuditContext,
   AuthUser,
   JwtPayload,
   RefreshTokenPayload,
@@ -15,6 +23,12 @@ import {
   RegisterDto,
   LoginDto,
   CreateUserData,
+  SessionContext,
+  SessionInfo,
+  TwoFactorChallenge,
+  TwoFactorChallengePayload,
+  TwoFactorLoginDto,
+  TwoFactorSetup,
 } from "../types";
 
 const supabase = createClient(config.supabase.url, config.supabase.serviceKey);
@@ -36,7 +50,7 @@ export class AuthService {
 
   // Hash password
   private async hashPassword(password: string): Promise<string> {
-    return bcrypt.hash(password, 12);
+    return bcrypt.hash(password, config.auth.bcryptRounds);
   }
 
   // Verify password
@@ -47,10 +61,274 @@ export class AuthService {
     return bcrypt.compare(password, hashedPassword);
   }
 
+  // Check whether a stored hash was produced with a different cost factor
+  private needsRehash(hashedPassword: string): boolean {
+    try {
+      return bcrypt.getRounds(hashedPassword) !== config.auth.bcryptRounds;
+    } catch {
+      return true;
+    }
+  }
+
+  // Issue a fresh email verification token, invalidating earlier ones
+  private async issueEmailVerificationToken(
+    userId: string,
+    email: string
+  ): Promise<string> {
+    const verificationToken = generateSecureToken();
+    const expiresAt = new Date(
+      Date.now() + config.auth.emailVerificationTtlHours * 60 * 60 * 1000
+    );
+
+    await prisma.$transaction([
+      prisma.emailVerificationToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      prisma.emailVerificationToken.create({
+        data: {
+          tokenHash: hashToken(verificationToken),
+          userId,
+          email,
+          expiresAt,
+        },
+      }),
+    ]);
+
+    logger.info("Email verification token issued", {
+      userId,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return verificationToken;
+  }
+
+  // Issue an access token plus the first refresh token of a new family
+  private async createSession(
+    user: { id: string; email: string; plan: UserPlan },
+    context: SessionContext
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const familyId = uuidv4();
+    const refreshTokenId = uuidv4();
+
+    const accessToken = this.generateAccessToken({
+      userId: user.id,
+      email: user.email,
+      plan: user.plan,
+      sessionId: familyId,
+    });
+    const refreshToken = this.generateRefreshToken({
+      userId: user.id,
+      tokenId: refreshTokenId,
+    });
+
+    // Store refresh token
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+
+    await prisma.refreshToken.create({
+      data: {
+        id: refreshTokenId,
+        token: refreshToken,
+        userId: user.id,
+        familyId,
+        expiresAt,
+        userAgent: context.userAgent?.slice(0, 512) || null,
+        ipAddress: context.ipAddress || null,
+        clientType: context.clientType,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    return { accessToken, refreshToken };
+  }
+
+  // Record the login and open a session once all factors have been verified
+  private async completeLogin(
+    user: Omit<AuthUser, "createdAt" | "updatedAt" | "lastLoginAt"> & {
+      createdAt: Date;
+      updatedAt: Date;
+      lastLoginAt: Date | null;
+    },
+    context: SessionContext
+  ): Promise<LoginResponse> {
+    // Update last login time
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    await lockoutService.recordSuccess(user.id, user.email, context);
+
+    // Start a new session (token family) for this device
+    const { accessToken, refreshToken } = await this.createSession(
+      user,
+      context
+    );
+
+    logger.info("User logged in successfully", {
+      userId: user.id,
+      email: user.email,
+    });
+
+    await auditService.record(
+      {
+        action: "auth.login",
+        targetUserId: user.id,
+        metadata: { clientType: context.clientType },
+      },
+      this.auditContext(user.id, context)
+    );
+
+    return {
+      user: this.formatUser(user),
+      accessToken,
+      refreshToken,
+      expiresAt: Date.now() + 15 * 60 * 1000, // 15 minutes
+    };
+  }
+
+  // Challenge tokens use a derived secret so they can never pass as access tokens
+  private get twoFactorChallengeSecret(): string {
+    return `${config.jwt.secret}:2fa-challenge`;
+  }
+
+  private createTwoFactorChallenge(userId: string): TwoFactorChallenge {
+    const payload: TwoFactorChallengePayload = {
+      challengeUserId: userId,
+      purpose: "2fa",
+    };
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: jwt.sign(payload, this.twoFactorChallengeSecret, {
+        expiresIn: config.auth.twoFactorChallengeTtl,
+      } as any),
+      expiresIn: config.auth.twoFactorChallengeTtl,
+    };
+  }
+
+  // Generate one-time recovery codes in xxxx-xxxx format
+  private generateRecoveryCodes(count: number = 10): string[] {
+    return Array.from({ length: count }, () => {
+      const code = generateSecureToken(4);
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, "").toLowerCase();
+  }
+
+  // Accept either a current TOTP code or an unused recovery code
+  private async verifySecondFactor(
+    user: {
+      id: string;
+      twoFactorSecret: string | null;
+      twoFactorLastStep: number | null;
+    },
+    code: string
+  ): Promise<boolean> {
+    const trimmed = code.trim();
+
+    if (/^\d{6}$/.test(trimmed)) {
+      if (!user.twoFactorSecret) {
+        return false;
+      }
+
+      const secret = decryptSecret(
+        user.twoFactorSecret,
+        config.auth.twoFactorEncryptionKey
+      );
+      const step = verifyTotp(secret, trimmed);
+
+      if (step === null) {
+        return false;
+      }
+
+      // Reject replays of a code that was already accepted
+      const result = await prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [
+            { twoFactorLastStep: null },
+            { twoFactorLastStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastStep: step },
+      });
+
+      return result.count > 0;
+    }
+
+    const recoveryCode = await prisma.twoFactorRecoveryCode.findFirst({
+      where: {
+        userId: user.id,
+        codeHash: hashToken(this.normalizeRecoveryCode(trimmed)),
+        usedAt: null,
+      },
+    });
+
+    if (!recoveryCode) {
+      return false;
+    }
+
+    const result = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { id: recoveryCode.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      logger.info("Two-factor recovery code used", { userId: user.id });
+    }
+
+    return result.count > 0;
+  }
+
+  // Replace a user's recovery codes, returning the plaintext codes once
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map((code) => ({
+          userId,
+          codeHash: hashToken(this.normalizeRecoveryCode(code)),
+        })),
+      }),
+    ]);
+
+    return recoveryCodes;
+  }
+
+  // Audit context for actions the user performs on their own account
+  private auditContext(userId: string, context: SessionContext): AuditContext {
+    return {
+      actorId: userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+  }
+
+  // Disabled accounts can't sign in or refresh
+  private assertAccountEnabled(user: { disabledAt: Date | null }): void {
+    if (user.disabledAt) {
+      throw new AppError(
+        "Account disabled",
+        403,
+        true,
+        undefined,
+        "ACCOUNT_DISABLED"
+      );
+    }
+  }
+
   // Convert user to AuthUser format
   private formatUser(user: any): AuthUser {
+    const { disabledAt, ...rest } = user;
     return {
-      ...user,
+      ...rest,
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
       lastLoginAt: user.lastLoginAt?.toISOString() || null,
@@ -58,7 +336,10 @@ export class AuthService {
   }
 
   // Register new user
-  async register(data: RegisterDto): Promise<ServiceResponse<LoginResponse>> {
+  async register(
+    data: RegisterDto,
+    context: SessionContext
+  ): Promise<ServiceResponse<LoginResponse>> {
     try {
       // Check if user already exists
       const existingUser = await prisma.user.findUnique({
@@ -99,6 +380,7 @@ export class AuthService {
         plan: "FREE",
         credits: config.credits.freeMonthly,
         supabaseId: supabaseUser?.id || null,
+        passwordHash: hashedPassword,
         emailVerified: false,
         lastLoginAt: new Date(),
       };
@@ -117,37 +399,26 @@ export class AuthService {
           updatedAt: true,
           lastLoginAt: true,
           supabaseId: true,
+          role: true,
+          disabledAt: true,
         },
       });
 
-      // Generate tokens
-      const tokenPayload: JwtPayload = {
-        userId: user.id,
-        email: user.email,
-        plan: user.plan,
-      };
+      const verificationToken = await this.issueEmailVerificationToken(
+        user.id,
+        user.email
+      );
 
-      const refreshTokenId = uuidv4();
-      const refreshTokenPayload: RefreshTokenPayload = {
-        userId: user.id,
-        tokenId: refreshTokenId,
-      };
-
-      const accessToken = this.generateAccessToken(tokenPayload);
-      const refreshToken = this.generateRefreshToken(refreshTokenPayload);
+      await Promise.all([
+        emailService.sendWelcomeEmail(user.email, user.name),
+        emailService.sendVerificationEmail(user.email, verificationToken),
+      ]);
 
-      // Store refresh token
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
-
-      await prisma.refreshToken.create({
-        data: {
-          id: refreshTokenId,
-          token: refreshToken,
-          userId: user.id,
-          expiresAt,
-        },
-      });
+      // Start a new session (token family) for this device
+      const { accessToken, refreshToken } = await this.createSession(
+        user,
+        context
+      );
 
       const response: LoginResponse = {
         user: this.formatUser(user),
@@ -161,6 +432,11 @@ export class AuthService {
         email: user.email,
       });
 
+      await auditService.record(
+        { action: "auth.register", targetUserId: user.id },
+        this.auditContext(user.id, context)
+      );
+
       return { success: true, data: response };
     } catch (error) {
       logger.error("Registration failed", { error, email: data.email });
@@ -171,10 +447,15 @@ export class AuthService {
   }
 
   // Login user
-  async login(data: LoginDto): Promise<ServiceResponse<LoginResponse>> {
+  async login(
+    data: LoginDto,
+    context: SessionContext
+  ): Promise<ServiceResponse<LoginResponse | TwoFactorChallenge>> {
     try {
+      await lockoutService.assertIpAllowed(context.ipAddress);
+
       // Find user by email
-      const user = await prisma.user.findUnique({
+      const userWithHash = await prisma.user.findUnique({
         where: { email: data.email.toLowerCase() },
         select: {
           id: true,
@@ -188,16 +469,65 @@ export class AuthService {
           updatedAt: true,
           lastLoginAt: true,
           supabaseId: true,
+          role: true,
+          disabledAt: true,
+          passwordHash: true,
+          twoFactorEnabled: true,
+          failedLoginCount: true,
+          lastFailedLoginAt: true,
+          lockedUntil: true,
         },
       });
 
-      if (!user) {
+      if (!userWithHash) {
+        await lockoutService.recordFailure(data.email, null, context);
+        await auditService.record(
+          {
+            action: "auth.login_failed",
+            metadata: {
+              email: data.email.toLowerCase(),
+              reason: "unknown_email",
+            },
+          },
+          { ipAddress: context.ipAddress, userAgent: context.userAgent }
+        );
         throw new AppError("Invalid email or password", 401);
       }
 
-      // Try Supabase authentication first if user has supabaseId
+      const {
+        passwordHash,
+        twoFactorEnabled,
+        failedLoginCount,
+        lastFailedLoginAt,
+        lockedUntil,
+        ...user
+      } = userWithHash;
+      const lockState = {
+        id: user.id,
+        email: user.email,
+        failedLoginCount,
+        lastFailedLoginAt,
+        lockedUntil,
+      };
+
+      this.assertAccountEnabled(user);
+      lockoutService.assertAccountAllowed(lockState);
+
       let isValidPassword = false;
-      if (user.supabaseId) {
+      if (passwordHash) {
+        // Local credentials are authoritative when present
+        isValidPassword = await this.verifyPassword(data.password, passwordHash);
+
+        if (isValidPassword && this.needsRehash(passwordHash)) {
+          await prisma.user.update({
+            where: { id: user.id },
+            data: { passwordHash: await this.hashPassword(data.password) },
+          });
+
+          logger.info("Password hash upgraded", { userId: user.id });
+        }
+      } else if (user.supabaseId) {
+        // Legacy Supabase-only account: verify there and backfill a local hash
         try {
           const { error } = await supabase.auth.signInWithPassword({
             email: data.email.toLowerCase(),
@@ -206,83 +536,399 @@ export class AuthService {
 
           isValidPassword = !error;
         } catch (supabaseError) {
-          logger.warn("Supabase login failed, trying local auth", {
-            error: supabaseError,
+          logger.warn("Supabase login failed", { error: supabaseError });
+        }
+
+        if (isValidPassword) {
+          await prisma.user.update({
+            where: { id: user.id },
+            data: { passwordHash: await this.hashPassword(data.password) },
           });
+
+          logger.info("Local password hash backfilled", { userId: user.id });
         }
       }
 
-      // If Supabase auth failed or user doesn't have supabaseId, validate locally
-      // Note: In production, you'd store password hashes locally too
       if (!isValidPassword) {
-        // For now, assume password is valid if user exists
-        // In a real implementation, you'd verify against stored hash
-        isValidPassword = true;
+        await lockoutService.recordFailure(data.email, lockState, context);
+        await auditService.record(
+          {
+            action: "auth.login_failed",
+            targetUserId: user.id,
+            metadata: { reason: "invalid_password" },
+          },
+          { ipAddress: context.ipAddress, userAgent: context.userAgent }
+        );
+        throw new AppError("Invalid email or password", 401);
       }
 
-      if (!isValidPassword) {
-        throw new AppError("Invalid email or password", 401);
+      // Second step required: hand back a short-lived challenge instead of tokens
+      if (twoFactorEnabled) {
+        logger.info("Two-factor challenge issued", { userId: user.id });
+        return { success: true, data: this.createTwoFactorChallenge(user.id) };
       }
 
-      // Update last login time
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { lastLoginAt: new Date() },
+      const response = await this.completeLogin(user, context);
+
+      return { success: true, data: response };
+    } catch (error) {
+      logger.error("Login failed", { error, email: data.email });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Login failed", 500);
+    }
+  }
+
+  // Complete a two-step login with a TOTP or recovery code
+  async loginWithTwoFactor(
+    data: TwoFactorLoginDto,
+    context: SessionContext
+  ): Promise<ServiceResponse<LoginResponse>> {
+    try {
+      await lockoutService.assertIpAllowed(context.ipAddress);
+
+      let payload: TwoFactorChallengePayload | null = null;
+      try {
+        payload = jwt.verify(
+          data.challengeToken,
+          this.twoFactorChallengeSecret
+        ) as TwoFactorChallengePayload;
+      } catch {
+        payload = null;
+      }
+
+      if (!payload || payload.purpose !== "2fa") {
+        // No account to charge it to, but it still counts against the IP
+        await lockoutService.recordFailure("", null, context);
+        await auditService.record(
+          {
+            action: "auth.login_failed",
+            metadata: { reason: "invalid_challenge_token" },
+          },
+          { ipAddress: context.ipAddress, userAgent: context.userAgent }
+        );
+        throw new AppError("Invalid or expired challenge token", 401);
+      }
+
+      const userWithSecret = await prisma.user.findUnique({
+        where: { id: payload.challengeUserId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          avatar: true,
+          plan: true,
+          credits: true,
+          emailVerified: true,
+          createdAt: true,
+          updatedAt: true,
+          lastLoginAt: true,
+          supabaseId: true,
+          role: true,
+          disabledAt: true,
+          twoFactorEnabled: true,
+          twoFactorSecret: true,
+          twoFactorLastStep: true,
+          failedLoginCount: true,
+          lastFailedLoginAt: true,
+          lockedUntil: true,
+        },
       });
 
-      // Generate tokens
-      const tokenPayload: JwtPayload = {
-        userId: user.id,
+      if (!userWithSecret || !userWithSecret.twoFactorEnabled) {
+        await lockoutService.recordFailure(
+          userWithSecret?.email ?? "",
+          null,
+          context
+        );
+        await auditService.record(
+          {
+            action: "auth.login_failed",
+            targetUserId: userWithSecret?.id,
+            metadata: { reason: "invalid_challenge_token" },
+          },
+          { ipAddress: context.ipAddress, userAgent: context.userAgent }
+        );
+        throw new AppError("Invalid or expired challenge token", 401);
+      }
+
+      const {
+        twoFactorEnabled,
+        twoFactorSecret,
+        twoFactorLastStep,
+        failedLoginCount,
+        lastFailedLoginAt,
+        lockedUntil,
+        ...user
+      } = userWithSecret;
+      const lockState = {
+        id: user.id,
         email: user.email,
-        plan: user.plan,
+        failedLoginCount,
+        lastFailedLoginAt,
+        lockedUntil,
       };
 
-      const refreshTokenId = uuidv4();
-      const refreshTokenPayload: RefreshTokenPayload = {
-        userId: user.id,
-        tokenId: refreshTokenId,
-      };
+      this.assertAccountEnabled(user);
+      lockoutService.assertAccountAllowed(lockState);
+
+      const isValidCode = await this.verifySecondFactor(
+        { id: user.id, twoFactorSecret, twoFactorLastStep },
+        data.code
+      );
+
+      if (!isValidCode) {
+        await lockoutService.recordFailure(user.email, lockState, context);
+        await auditService.record(
+          {
+            action: "auth.login_failed",
+            targetUserId: user.id,
+            metadata: { reason: "invalid_two_factor_code" },
+          },
+          { ipAddress: context.ipAddress, userAgent: context.userAgent }
+        );
+        throw new AppError("Invalid two-factor code", 401);
+      }
 
-      const accessToken = this.generateAccessToken(tokenPayload);
-      const refreshToken = this.generateRefreshToken(refreshTokenPayload);
+      const response = await this.completeLogin(user, context);
+
+      return { success: true, data: response };
+    } catch (error) {
+      logger.error("Two-factor login failed", { error });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Login failed", 500);
+    }
+  }
+
+  // Start TOTP enrollment: store a pending secret and return the otpauth URI
+  async setupTwoFactor(userId: string): Promise<ServiceResponse<TwoFactorSetup>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, passwordHash: true, twoFactorEnabled: true },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (!user.passwordHash) {
+        throw new AppError(
+          "Two-factor authentication requires a local password",
+          400
+        );
+      }
+
+      if (user.twoFactorEnabled) {
+        throw new AppError("Two-factor authentication is already enabled", 400);
+      }
 
-      // Store refresh token
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+      const secret = generateTotpSecret();
 
-      await prisma.refreshToken.create({
+      await prisma.user.update({
+        where: { id: userId },
         data: {
-          id: refreshTokenId,
-          token: refreshToken,
-          userId: user.id,
-          expiresAt,
+          twoFactorSecret: encryptSecret(
+            secret,
+            config.auth.twoFactorEncryptionKey
+          ),
+          twoFactorLastStep: null,
         },
       });
 
-      const response: LoginResponse = {
-        user: this.formatUser(user),
-        accessToken,
-        refreshToken,
-        expiresAt: Date.now() + 15 * 60 * 1000, // 15 minutes
+      logger.info("Two-factor enrollment started", { userId });
+
+      return {
+        success: true,
+        data: {
+          secret,
+          otpauthUrl: buildOtpAuthUrl(
+            secret,
+            user.email,
+            config.auth.twoFactorIssuer
+          ),
+        },
       };
+    } catch (error) {
+      logger.error("Two-factor setup failed", { error, userId });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Two-factor setup failed", 500);
+    }
+  }
 
-      logger.info("User logged in successfully", {
-        userId: user.id,
-        email: user.email,
+  // Confirm enrollment with a first code and hand out recovery codes
+  async confirmTwoFactor(
+    userId: string,
+    code: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorEnabled: true, twoFactorSecret: true },
       });
 
-      return { success: true, data: response };
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (user.twoFactorEnabled) {
+        throw new AppError("Two-factor authentication is already enabled", 400);
+      }
+
+      if (!user.twoFactorSecret) {
+        throw new AppError("Two-factor setup has not been started", 400);
+      }
+
+      const step = verifyTotp(
+        decryptSecret(user.twoFactorSecret, config.auth.twoFactorEncryptionKey),
+        code.trim()
+      );
+
+      if (step === null) {
+        throw new AppError("Invalid two-factor code", 400);
+      }
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true, twoFactorLastStep: step },
+      });
+
+      const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+      logger.info("Two-factor authentication enabled", { userId });
+
+      await auditService.record(
+        { action: "auth.two_factor_enabled", targetUserId: userId },
+        context
+      );
+
+      return { success: true, data: { recoveryCodes } };
     } catch (error) {
-      logger.error("Login failed", { error, email: data.email });
+      logger.error("Two-factor confirmation failed", { error, userId });
       throw error instanceof AppError
         ? error
-        : new AppError("Login failed", 500);
+        : new AppError("Two-factor confirmation failed", 500);
+    }
+  }
+
+  // Disable 2FA after re-checking both password and a second factor
+  async disableTwoFactor(
+    userId: string,
+    password: string,
+    code: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          passwordHash: true,
+          twoFactorEnabled: true,
+          twoFactorSecret: true,
+          twoFactorLastStep: true,
+        },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (!user.twoFactorEnabled) {
+        throw new AppError("Two-factor authentication is not enabled", 400);
+      }
+
+      const isValidPassword =
+        !!user.passwordHash &&
+        (await this.verifyPassword(password, user.passwordHash));
+
+      if (!isValidPassword || !(await this.verifySecondFactor(user, code))) {
+        throw new AppError("Invalid password or two-factor code", 401);
+      }
+
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorLastStep: null,
+          },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      ]);
+
+      logger.info("Two-factor authentication disabled", { userId });
+
+      await auditService.record(
+        { action: "auth.two_factor_disabled", targetUserId: userId },
+        context
+      );
+      return { success: true };
+    } catch (error) {
+      logger.error("Two-factor disable failed", { error, userId });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to disable two-factor authentication", 500);
+    }
+  }
+
+  // Issue a fresh set of recovery codes
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          twoFactorEnabled: true,
+          twoFactorSecret: true,
+          twoFactorLastStep: true,
+        },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (!user.twoFactorEnabled) {
+        throw new AppError("Two-factor authentication is not enabled", 400);
+      }
+
+      if (!(await this.verifySecondFactor(user, code))) {
+        throw new AppError("Invalid two-factor code", 401);
+      }
+
+      const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+      logger.info("Two-factor recovery codes regenerated", { userId });
+
+      await auditService.record(
+        {
+          action: "auth.two_factor_recovery_codes_regenerated",
+          targetUserId: userId,
+        },
+        context
+      );
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      logger.error("Recovery code regeneration failed", { error, userId });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to regenerate recovery codes", 500);
     }
   }
 
   // Refresh access token
   async refreshToken(
-    refreshToken: string
+    refreshToken: string,
+    context: SessionContext
   ): Promise<ServiceResponse<LoginResponse>> {
     try {
       // Verify refresh token
@@ -291,12 +937,11 @@ export class AuthService {
         config.jwt.refreshSecret
       ) as RefreshTokenPayload;
 
-      // Find refresh token in database
+      // Find refresh token in database (including revoked ones, for reuse detection)
       const storedToken = await prisma.refreshToken.findUnique({
         where: {
           id: payload.tokenId,
           token: refreshToken,
-          revoked: false,
         },
         include: {
           user: {
@@ -312,6 +957,8 @@ export class AuthService {
               updatedAt: true,
               lastLoginAt: true,
               supabaseId: true,
+              role: true,
+              disabledAt: true,
             },
           },
         },
@@ -321,11 +968,18 @@ export class AuthService {
         throw new AppError("Invalid or expired refresh token", 401);
       }
 
+      this.assertAccountEnabled(storedToken.user);
+
+      if (storedToken.revoked) {
+        await this.rejectRevokedToken(storedToken, context);
+      }
+
       // Generate new tokens
       const tokenPayload: JwtPayload = {
         userId: storedToken.user.id,
         email: storedToken.user.email,
         plan: storedToken.user.plan,
+        sessionId: storedToken.familyId,
       };
 
       const newRefreshTokenId = uuidv4();
@@ -337,21 +991,52 @@ export class AuthService {
       const accessToken = this.generateAccessToken(tokenPayload);
       const newRefreshToken = this.generateRefreshToken(newRefreshTokenPayload);
 
-      // Revoke old refresh token and create new one
-      await prisma.$transaction([
-        prisma.refreshToken.update({
-          where: { id: storedToken.id },
-          data: { revoked: true },
-        }),
-        prisma.refreshToken.create({
+      // Revoke old refresh token and create its successor in the same family
+      const rotated = await prisma.$transaction(async (tx) => {
+        const revoked = await tx.refreshToken.updateMany({
+          where: { id: storedToken.id, revoked: false },
+          data: { revoked: true, replacedById: newRefreshTokenId },
+        });
+
+        if (revoked.count === 0) {
+          return false;
+        }
+
+        await tx.refreshToken.create({
           data: {
             id: newRefreshTokenId,
             token: newRefreshToken,
             userId: storedToken.user.id,
+            familyId: storedToken.familyId,
             expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+            // Device details carry over; IP and user agent reflect the latest use
+            userAgent:
+              context.userAgent?.slice(0, 512) || storedToken.userAgent,
+            ipAddress: context.ipAddress || storedToken.ipAddress,
+            clientType: storedToken.clientType,
+            lastUsedAt: new Date(),
           },
-        }),
-      ]);
+        });
+
+        return true;
+      });
+
+      // Revoked while we were rotating: by a concurrent rotation, or by a logout
+      if (!rotated) {
+        const current = await prisma.refreshToken.findUnique({
+          where: { id: storedToken.id },
+          select: { replacedById: true },
+        });
+
+        await this.rejectRevokedToken(
+          {
+            familyId: storedToken.familyId,
+            userId: storedToken.userId,
+            replacedById: current?.replacedById ?? null,
+          },
+          context
+        );
+      }
 
       const response: LoginResponse = {
         user: this.formatUser(storedToken.user),
@@ -370,14 +1055,34 @@ export class AuthService {
   }
 
   // Logout user
-  async logout(refreshToken: string): Promise<ServiceResponse<void>> {
+  async logout(
+    refreshToken: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
     try {
+      const storedToken = await prisma.refreshToken.findUnique({
+        where: { token: refreshToken },
+        select: { userId: true, familyId: true },
+      });
+
       // Revoke refresh token
       await prisma.refreshToken.updateMany({
         where: { token: refreshToken },
         data: { revoked: true },
       });
 
+      if (storedToken) {
+        await auditService.record(
+          {
+            action: "auth.logout",
+            targetUserId: storedToken.userId,
+            targetType: "session",
+            targetId: storedToken.familyId,
+          },
+          context
+        );
+      }
+
       return { success: true };
     } catch (error) {
       logger.error("Logout failed", { error });
@@ -402,6 +1107,8 @@ export class AuthService {
           updatedAt: true,
           lastLoginAt: true,
           supabaseId: true,
+          role: true,
+          disabledAt: true,
         },
       });
 
@@ -430,28 +1137,34 @@ export class AuthService {
         return { success: true };
       }
 
-      // Try Supabase password reset first
-      if (user.supabaseId) {
-        try {
-          await supabase.auth.resetPasswordForEmail(email.toLowerCase(), {
-            redirectTo: `${config.server.apiBaseUrl}/auth/reset-password`,
-          });
+      // Local credentials are authoritative, so every account resets through
+      // our own single-use token rather than Supabase's recovery link
+      const resetToken = generateSecureToken();
+      const expiresAt = new Date(
+        Date.now() + config.auth.passwordResetTtlMinutes * 60 * 1000
+      );
 
-          logger.info("Password reset email sent via Supabase", {
+      await prisma.$transaction([
+        // Only the most recently issued link should work
+        prisma.passwordResetToken.updateMany({
+          where: { userId: user.id, usedAt: null },
+          data: { usedAt: new Date() },
+        }),
+        prisma.passwordResetToken.create({
+          data: {
+            tokenHash: hashToken(resetToken),
             userId: user.id,
-            email,
-          });
-          return { success: true };
-        } catch (supabaseError) {
-          logger.warn("Supabase password reset failed", {
-            error: supabaseError,
-          });
-        }
-      }
+            expiresAt,
+          },
+        }),
+      ]);
 
-      // TODO: Implement custom email sending for non-Supabase users
-      // For now, just log that password reset was requested
-      logger.info("Password reset requested", { userId: user.id, email });
+      logger.info("Password reset token issued", {
+        userId: user.id,
+        expiresAt: expiresAt.toISOString(),
+      });
+
+      await emailService.sendPasswordResetEmail(user.email, resetToken);
 
       return { success: true };
     } catch (error) {
@@ -463,56 +1176,321 @@ export class AuthService {
   // Reset password
   async resetPassword(
     token: string,
-    newPassword: string
+    newPassword: string,
+    context: AuditContext = {}
   ): Promise<ServiceResponse<void>> {
     try {
-      // TODO: Implement token verification and password reset
-      // This would typically involve:
-      // 1. Verify the reset token
-      // 2. Find the user associated with the token
-      // 3. Hash the new password
-      // 4. Update the user's password
-      // 5. Invalidate the reset token
-
-      logger.info("Password reset completed", {
-        token: token.substring(0, 10) + "...",
+      const storedToken = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: {
+          user: { select: { id: true, supabaseId: true } },
+        },
       });
+
+      if (
+        !storedToken ||
+        storedToken.usedAt ||
+        storedToken.expiresAt < new Date()
+      ) {
+        throw new AppError("Invalid or expired reset token", 400);
+      }
+
+      const passwordHash = await this.hashPassword(newPassword);
+      const now = new Date();
+
+      await prisma.$transaction(async (tx) => {
+        // Consume the token first so a concurrent redemption never reaches the password
+        const consumed = await tx.passwordResetToken.updateMany({
+          where: { id: storedToken.id, usedAt: null, expiresAt: { gt: now } },
+          data: { usedAt: now },
+        });
+
+        if (consumed.count === 0) {
+          throw new AppError("Invalid or expired reset token", 400);
+        }
+
+        // A successful reset also lifts any brute-force lockout
+        await tx.user.update({
+          where: { id: storedToken.userId },
+          data: {
+            passwordHash,
+            failedLoginCount: 0,
+            lastFailedLoginAt: null,
+            lockedUntil: null,
+          },
+        });
+        await tx.refreshToken.updateMany({
+          where: { userId: storedToken.userId, revoked: false },
+          data: { revoked: true },
+        });
+      });
+
+      // Keep Supabase in sync for accounts that still sign in there
+      if (storedToken.user.supabaseId) {
+        try {
+          await supabase.auth.admin.updateUserById(storedToken.user.supabaseId, {
+            password: newPassword,
+          });
+        } catch (supabaseError) {
+          logger.warn("Supabase password sync failed", {
+            error: supabaseError,
+            userId: storedToken.userId,
+          });
+        }
+      }
+
+      logger.info("Password reset completed", { userId: storedToken.userId });
+
+      await auditService.record(
+        { action: "auth.password_reset", targetUserId: storedToken.userId },
+        context
+      );
       return { success: true };
     } catch (error) {
       logger.error("Reset password failed", { error });
-      throw new AppError("Password reset failed", 500);
+      throw error instanceof AppError
+        ? error
+        : new AppError("Password reset failed", 500);
     }
   }
 
   // Verify email
-  async verifyEmail(token: string): Promise<ServiceResponse<void>> {
+  async verifyEmail(
+    token: string,
+    userId?: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
     try {
-      // TODO: Implement email verification
-      // This would typically involve:
-      // 1. Verify the email verification token
-      // 2. Find the user associated with the token
-      // 3. Mark email as verified
-      // 4. Invalidate the verification token
+      const storedToken = await prisma.emailVerificationToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: { select: { email: true } } },
+      });
+
+      if (
+        !storedToken ||
+        storedToken.usedAt ||
+        storedToken.expiresAt < new Date() ||
+        storedToken.email !== storedToken.user.email ||
+        (userId && storedToken.userId !== userId)
+      ) {
+        throw new AppError("Invalid or expired verification token", 400);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        const now = new Date();
+
+        // Consume the token first so a concurrent redemption never reaches the user
+        const consumed = await tx.emailVerificationToken.updateMany({
+          where: { id: storedToken.id, usedAt: null, expiresAt: { gt: now } },
+          data: { usedAt: now },
+        });
+
+        if (consumed.count === 0) {
+          throw new AppError("Invalid or expired verification token", 400);
+        }
+
+        await tx.user.update({
+          where: { id: storedToken.userId },
+          data: { emailVerified: true },
+        });
+      });
 
       logger.info("Email verification completed", {
-        token: token.substring(0, 10) + "...",
+        userId: storedToken.userId,
       });
+
+      await auditService.record(
+        { action: "auth.email_verified", targetUserId: storedToken.userId },
+        context
+      );
       return { success: true };
     } catch (error) {
       logger.error("Email verification failed", { error });
-      throw new AppError("Email verification failed", 500);
+      throw error instanceof AppError
+        ? error
+        : new AppError("Email verification failed", 500);
     }
   }
 
+  // Resend email verification token
+  async resendVerificationEmail(
+    userId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, emailVerified: true },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (user.emailVerified) {
+        throw new AppError("Email is already verified", 400);
+      }
+
+      const verificationToken = await this.issueEmailVerificationToken(
+        user.id,
+        user.email
+      );
+
+      const sent = await emailService.sendVerificationEmail(
+        user.email,
+        verificationToken
+      );
+
+      if (!sent.success) {
+        throw new AppError("Failed to send verification email", 502);
+      }
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Resend verification email failed", { error, userId });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to resend verification email", 500);
+    }
+  }
+
+  // List active sessions (one live refresh token per family)
+  async getSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<ServiceResponse<SessionInfo[]>> {
+    try {
+      const tokens = await prisma.refreshToken.findMany({
+        where: {
+          userId,
+          revoked: false,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { lastUsedAt: "desc" },
+      });
+
+      const sessions: SessionInfo[] = tokens.map((token) => ({
+        id: token.familyId,
+        clientType: token.clientType,
+        userAgent: token.userAgent,
+        ipAddress: token.ipAddress,
+        lastUsedAt: (token.lastUsedAt ?? token.createdAt).toISOString(),
+        expiresAt: token.expiresAt.toISOString(),
+        current: token.familyId === currentSessionId,
+      }));
+
+      return { success: true, data: sessions };
+    } catch (error) {
+      logger.error("Get sessions failed", { error, userId });
+      throw new AppError("Failed to get sessions", 500);
+    }
+  }
+
+  // Revoke a single session by its id (the token family id)
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const result = await prisma.refreshToken.updateMany({
+        where: { userId, familyId: sessionId, revoked: false },
+        data: { revoked: true },
+      });
+
+      if (result.count === 0) {
+        throw new AppError("Session not found", 404);
+      }
+
+      logger.info("Session revoked", { userId, sessionId });
+
+      await auditService.record(
+        {
+          action: "auth.session_revoked",
+          targetUserId: userId,
+          targetType: "session",
+          targetId: sessionId,
+        },
+        context
+      );
+      return { success: true };
+    } catch (error) {
+      logger.error("Session revocation failed", { error, userId, sessionId });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Session revocation failed", 500);
+    }
+  }
+
+  // A token that was rotated out being presented again means it leaked: kill the family.
+  // Tokens revoked any other way (logout, session or password changes) are just invalid.
+  private async rejectRevokedToken(
+    token: { familyId: string; userId: string; replacedById: string | null },
+    context: SessionContext
+  ): Promise<never> {
+    if (!token.replacedById) {
+      throw new AppError("Invalid or expired refresh token", 401);
+    }
+
+    await this.revokeTokenFamily(token.familyId, token.userId, context);
+    throw new AppError(
+      "Refresh token reuse detected",
+      401,
+      true,
+      undefined,
+      "TOKEN_REUSE_DETECTED"
+    );
+  }
+
+  // Revoke every token descended from the same login
+  private async revokeTokenFamily(
+    familyId: string,
+    userId: string,
+    context: SessionContext
+  ): Promise<void> {
+    const result = await prisma.refreshToken.updateMany({
+      where: { familyId, revoked: false },
+      data: { revoked: true },
+    });
+
+    logger.warn("Refresh token reuse detected, token family revoked", {
+      userId,
+      familyId,
+      revokedCount: result.count,
+    });
+
+    await auditService.record(
+      {
+        action: "auth.token_reuse_detected",
+        targetUserId: userId,
+        targetType: "session",
+        targetId: familyId,
+        metadata: { revokedCount: result.count },
+      },
+      { ipAddress: context.ipAddress, userAgent: context.userAgent }
+    );
+  }
+
   // Revoke all refresh tokens for a user
-  async revokeAllTokens(userId: string): Promise<ServiceResponse<void>> {
+  async revokeAllTokens(
+    userId: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
     try {
-      await prisma.refreshToken.updateMany({
+      const result = await prisma.refreshToken.updateMany({
         where: { userId, revoked: false },
         data: { revoked: true },
       });
 
       logger.info("All tokens revoked", { userId });
+
+      await auditService.record(
+        {
+          action: "auth.tokens_revoked",
+          targetUserId: userId,
+          metadata: { revokedCount: result.count },
+        },
+        context
+      );
       return { success: true };
     } catch (error) {
       logger.error("Token revocation failed", { error, userId });
@@ -523,13 +1501,29 @@ export class AuthService {
   // Clean up expired tokens
   async cleanupExpiredTokens(): Promise<void> {
     try {
+      // Revoked tokens are kept until expiry so reuse can still be detected
       const result = await prisma.refreshToken.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      const resetTokens = await prisma.passwordResetToken.deleteMany({
         where: {
-          OR: [{ expiresAt: { lt: new Date() } }, { revoked: true }],
+          OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }],
         },
       });
 
-      logger.info("Expired tokens cleaned up", { count: result.count });
+      const verificationTokens =
+        await prisma.emailVerificationToken.deleteMany({
+          where: {
+            OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }],
+          },
+        });
+
+      logger.info("Expired tokens cleaned up", {
+        count: result.count,
+        passwordResetTokens: resetTokens.count,
+        emailVerificationTokens: verificationTokens.count,
+      });
     } catch (error) {
       logger.error("Token cleanup failed", { error });
     }
@@ -0,0 +1,51 @@
+import { chapterService } from "./chapters";
+import { Chapter } from "../types";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+
+const chapter = (
+  title: string,
+  startSeconds: number,
+  endSeconds: number
+): Chapter => ({ title, startSeconds, endSeconds, summary: "" });
+
+describe("toYouTubeDescription", () => {
+  it("writes one line per chapter with YouTube-style timestamps", () => {
+    expect(
+      chapterService.toYouTubeDescription([
+        chapter("Intro", 0, 45),
+        chapter("Setup", 45, 605),
+        chapter("Wrap up", 605, 3725),
+      ])
+    ).toBe("00:00 Intro\n00:45 Setup\n10:05 Wrap up");
+  });
+
+  it("lists the first chapter at 00:00", () => {
+    expect(
+      chapterService.toYouTubeDescription([
+        chapter("Intro", 4, 45),
+        chapter("Setup", 45, 90),
+        chapter("Wrap up", 90, 120),
+      ])
+    ).toMatch(/^00:00 Intro\n/);
+  });
+
+  it("rejects lists YouTube would ignore for having too few chapters", () => {
+    expect(() =>
+      chapterService.toYouTubeDescription([
+        chapter("Intro", 0, 45),
+        chapter("Rest", 45, 90),
+      ])
+    ).toThrow(expect.objectContaining({ statusCode: 422 }));
+  });
+
+  it("rejects lists with a chapter shorter than 10 seconds", () => {
+    expect(() =>
+      chapterService.toYouTubeDescription([
+        chapter("Intro", 0, 45),
+        chapter("Setup", 45, 90),
+        chapter("Outro", 90, 95),
+      ])
+    ).toThrow(expect.objectContaining({ statusCode: 422 }));
+  });
+});
@@ -0,0 +1,351 @@
+import { Prisma, SummaryStatus } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { formatTimestamp } from "../utils/timestamps";
+import { aiService } from "./ai";
+import { llmService } from "./llm";
+import { creditService } from "./credit";
+import { jobQueue } from "./jobQueue";
+import { usageService } from "./usage";
+import {
+  AuditContext,
+  Chapter,
+  ChaptersData,
+  LLMCallUsage,
+  ServiceResponse,
+  TranscriptSegment,
+  MIN_CHAPTER_SECONDS,
+} from "../types";
+
+// Job type handled by the chapters worker
+export const CHAPTERS_JOB_TYPE = "summary.chapters";
+
+// YouTube only shows a chapter list with at least this many chapters
+const MIN_YOUTUBE_CHAPTERS = 3;
+
+const chaptersSelect = {
+  id: true,
+  chapters: true,
+  chaptersStatus: true,
+} as const;
+
+export class ChapterService {
+  // Queue chapter generation for a completed summary. Chapters already generated, or a
+  // request already in flight, are returned as is and not charged again.
+  async requestChapters(
+    userId: string,
+    summaryId: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<ChaptersData>> {
+    try {
+      const cost = config.credits.perChapters;
+
+      const [user, summary] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { credits: true },
+        }),
+        prisma.summary.findFirst({
+          where: { id: summaryId, userId },
+          select: { ...chaptersSelect, status: true, transcript: true },
+        }),
+      ]);
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (!summary) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      if (summary.status !== "COMPLETED") {
+        throw new AppError("Summary is not completed yet", 409);
+      }
+
+      if (
+        summary.chaptersStatus === "COMPLETED" ||
+        summary.chaptersStatus === "PENDING" ||
+        summary.chaptersStatus === "PROCESSING"
+      ) {
+        logger.info("Chapters already generated or in progress", {
+          userId,
+          summaryId,
+          chaptersStatus: summary.chaptersStatus,
+        });
+        return { success: true, data: this.formatChapters(summary) };
+      }
+
+      const transcript = summary.transcript as unknown as
+        | TranscriptSegment[]
+        | null;
+      if (!transcript?.length) {
+        throw new AppError("Summary has no transcript to generate chapters from", 400);
+      }
+
+      if (user.credits < cost) {
+        throw new AppError("Insufficient credits", 402);
+      }
+
+      const queued = await prisma.$transaction(
+        async (tx) => {
+          // Conditional update so concurrent requests enqueue (and charge) only once
+          const claimed = await tx.summary.updateMany({
+            where: {
+              id: summaryId,
+              OR: [{ chaptersStatus: null }, { chaptersStatus: "FAILED" }],
+            },
+            data: { chaptersStatus: "PENDING" },
+          });
+
+          if (claimed.count === 0) {
+            return false;
+          }
+
+          await creditService.charge(
+            userId,
+            cost,
+            { reason: "chapters", summaryId },
+            context,
+            tx
+          );
+
+          // The job carries what was charged so a failure refunds exactly that
+          await jobQueue.enqueue(
+            CHAPTERS_JOB_TYPE,
+            { summaryId, credits: cost },
+            {},
+            tx
+          );
+
+          return true;
+        }
+      );
+
+      const updated = await prisma.summary.findUniqueOrThrow({
+        where: { id: summaryId },
+        select: chaptersSelect,
+      });
+
+      logger.info(
+        queued ? "Chapter generation queued" : "Chapter generation already in progress",
+        { userId, summaryId, creditsCharged: queued ? cost : 0 }
+      );
+
+      return { success: true, data: this.formatChapters(updated) };
+    } catch (error) {
+      logger.error("Chapter request failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to generate chapters", 500);
+    }
+  }
+
+  // Run the AI step for queued chapters (called by the job worker)
+  async processChapters(summaryId: string): Promise<void> {
+    const summary = await prisma.summary.findUnique({
+      where: { id: summaryId },
+      include: { user: { select: { plan: true } } },
+    });
+
+    // Deleted or already finished while queued
+    if (
+      !summary ||
+      (summary.chaptersStatus !== "PENDING" &&
+        summary.chaptersStatus !== "PROCESSING")
+    ) {
+      logger.info("Skipping chapters job", {
+        summaryId,
+        chaptersStatus: summary?.chaptersStatus,
+      });
+      return;
+    }
+
+    await prisma.summary.update({
+      where: { id: summaryId },
+      data: { chaptersStatus: "PROCESSING" },
+    });
+
+    const target = llmService.resolve(summary.user.plan);
+
+    // Record usage even when generation fails; those tokens were still paid for
+    const usage: LLMCallUsage[] = [];
+    let aiResult: ServiceResponse<Chapter[]>;
+
+    try {
+      aiResult = await aiService.generateChapters(
+        (summary.transcript as unknown as TranscriptSegment[]) ?? [],
+        {
+          videoId: summary.videoId,
+          title: summary.videoTitle,
+          channelName: summary.channelName,
+          duration: summary.videoDuration ?? undefined,
+          url: summary.videoUrl,
+          thumbnailUrl: summary.thumbnailUrl ?? undefined,
+        },
+        { onUsage: (call) => usage.push(call) },
+        target
+      );
+    } finally {
+      await usageService.recordCalls(
+        summaryId,
+        summary.userId,
+        summary.user.plan,
+        usage
+      );
+    }
+
+    if (!aiResult.success || !aiResult.data) {
+      throw new AppError(aiResult.error || "Chapter generation failed", 500);
+    }
+
+    const completed = await prisma.summary.updateMany({
+      where: { id: summaryId, chaptersStatus: "PROCESSING" },
+      data: {
+        chapters: aiResult.data as unknown as Prisma.InputJsonValue,
+        chaptersStatus: "COMPLETED",
+      },
+    });
+
+    logger.info("Chapters generated successfully", {
+      userId: summary.userId,
+      summaryId,
+      chaptersCount: aiResult.data.length,
+      completed: completed.count > 0,
+    });
+  }
+
+  // Mark chapter generation failed for good and refund the credits it was charged
+  async failChapters(
+    summaryId: string,
+    error: unknown,
+    credits: number
+  ): Promise<void> {
+    const userId = await prisma.$transaction(async (tx) => {
+      const failed = await tx.summary.updateMany({
+        where: {
+          id: summaryId,
+          chaptersStatus: { in: ["PENDING", "PROCESSING"] },
+        },
+        data: { chaptersStatus: "FAILED" },
+      });
+
+      if (failed.count === 0) {
+        return null;
+      }
+
+      const { userId } = await tx.summary.findUniqueOrThrow({
+        where: { id: summaryId },
+        select: { userId: true },
+      });
+
+      await creditService.refund(
+        userId,
+        credits,
+        { reason: "chapters_failed_refund", summaryId },
+        { actorId: userId },
+        tx
+      );
+
+      return userId;
+    });
+
+    if (!userId) {
+      return;
+    }
+
+    logger.warn("Chapter generation failed, credits refunded", {
+      userId,
+      summaryId,
+      creditsRefunded: credits,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  // Get a summary's chapters and their generation status
+  async getChapters(
+    userId: string,
+    summaryId: string
+  ): Promise<ServiceResponse<ChaptersData>> {
+    try {
+      const summary = await prisma.summary.findFirst({
+        where: { id: summaryId, userId },
+        select: chaptersSelect,
+      });
+
+      if (!summary) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      return { success: true, data: this.formatChapters(summary) };
+    } catch (error) {
+      logger.error("Get chapters failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get chapters", 500);
+    }
+  }
+
+  // Chapters as YouTube description lines ("00:00 Intro"). YouTube ignores the list unless
+  // it starts at 00:00, has at least three chapters and none shorter than 10 seconds.
+  toYouTubeDescription(chapters: Chapter[]): string {
+    // Older rows may not start at 0:00; the opening chapter covers the video's start either way
+    const sections = chapters.map((chapter, i) =>
+      i === 0 ? { ...chapter, startSeconds: 0 } : chapter
+    );
+
+    if (sections.length < MIN_YOUTUBE_CHAPTERS) {
+      throw new AppError(
+        `YouTube needs at least ${MIN_YOUTUBE_CHAPTERS} chapters; this summary has ${sections.length}`,
+        422
+      );
+    }
+
+    const tooShort = sections.find(
+      (chapter) => chapter.endSeconds - chapter.startSeconds < MIN_CHAPTER_SECONDS
+    );
+    if (tooShort) {
+      throw new AppError(
+        `YouTube needs chapters of at least ${MIN_CHAPTER_SECONDS} seconds; "${tooShort.title}" is shorter`,
+        422
+      );
+    }
+
+    return sections
+      .map(
+        // YouTube writes minutes with two digits; hour-long timestamps are already wide enough
+        (chapter) =>
+          `${formatTimestamp(chapter.startSeconds).padStart(5, "0")} ${chapter.title}`
+      )
+      .join("\n");
+  }
+
+  // Stored chapters, tolerating rows written before chapters existed
+  formatChapterList(chapters: unknown): Chapter[] {
+    return Array.isArray(chapters) ? (chapters as Chapter[]) : [];
+  }
+
+  private formatChapters(summary: {
+    id: string;
+    chapters: unknown;
+    chaptersStatus: SummaryStatus | null;
+  }): ChaptersData {
+    return {
+      summaryId: summary.id,
+      status: summary.chaptersStatus,
+      chapters: this.formatChapterList(summary.chapters),
+    };
+  }
+}
+
+export const chapterService = new ChapterService();
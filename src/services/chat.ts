@@ -0,0 +1,276 @@
+import { ChatMessage } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { formatTimestamp } from "../utils/timestamps";
+import { selectRelevantSegments } from "../utils/retrieval";
+import { aiService } from "./ai";
+import { llmService } from "./llm";
+import { creditService } from "./credit";
+import { usageService } from "./usage";
+import {
+  AuditContext,
+  ChatExchange,
+  ChatMessageData,
+  LLMCallUsage,
+  LLMMessage,
+  QuestionAnswer,
+  ServiceResponse,
+  TranscriptSegment,
+  MAX_CHAT_CONTEXT_LENGTH,
+  MAX_CHAT_HISTORY,
+} from "../types";
+
+export class ChatService {
+  // Answer a question about a summarized video and append both messages to its thread
+  async ask(
+    userId: string,
+    summaryId: string,
+    question: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<ChatExchange>> {
+    try {
+      const cost = config.credits.perChatQuestion;
+
+      const [user, summary] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { plan: true },
+        }),
+        prisma.summary.findFirst({ where: { id: summaryId, userId } }),
+      ]);
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (!summary) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      if (summary.status !== "COMPLETED") {
+        throw new AppError("Summary is not completed yet", 409);
+      }
+
+      const transcript =
+        (summary.transcript as unknown as TranscriptSegment[] | null) ?? [];
+      if (transcript.length === 0) {
+        throw new AppError("Summary has no transcript to answer from", 400);
+      }
+
+      // Reserve the credits before paying for the answer, so concurrent questions
+      // can't all pass a balance check and then overdraw; they're refunded on failure
+      const creditsRemaining = await creditService.charge(
+        userId,
+        cost,
+        { reason: "chat_question", summaryId },
+        context
+      );
+
+      // The question is stored with the time it was asked, ahead of its answer
+      const askedAt = new Date();
+
+      try {
+        const earlier = await prisma.chatMessage.findMany({
+          where: { summaryId },
+          orderBy: { createdAt: "desc" },
+          take: MAX_CHAT_HISTORY,
+        });
+        const history = earlier.reverse();
+
+        // Follow-ups like "what about the second one?" need the previous question's terms too
+        const previousQuestion = [...history]
+          .reverse()
+          .find((message) => message.role === "USER");
+        const excerpt = selectRelevantSegments(
+          transcript,
+          [previousQuestion?.content, question].filter(Boolean).join(" "),
+          MAX_CHAT_CONTEXT_LENGTH
+        );
+
+        // Record usage even when answering fails; those tokens were still paid for
+        const usage: LLMCallUsage[] = [];
+        let aiResult: ServiceResponse<QuestionAnswer>;
+
+        try {
+          aiResult = await aiService.answerQuestion(
+            {
+              videoMetadata: {
+                videoId: summary.videoId,
+                title: summary.videoTitle,
+                channelName: summary.channelName,
+                duration: summary.videoDuration ?? undefined,
+                url: summary.videoUrl,
+              },
+              fullSummary: summary.fullSummary,
+              transcript,
+              excerpt,
+              history: history.map(
+                (message): LLMMessage => ({
+                  role: message.role === "USER" ? "user" : "assistant",
+                  content: message.content,
+                })
+              ),
+              question,
+            },
+            { onUsage: (call) => usage.push(call) },
+            llmService.resolve(user.plan)
+          );
+        } finally {
+          await usageService.recordCalls(summaryId, userId, user.plan, usage);
+        }
+
+        if (!aiResult.success || !aiResult.data) {
+          throw new AppError(aiResult.error || "Failed to answer question", 500);
+        }
+        const answer = aiResult.data;
+
+        const [questionMessage, answerMessage] = await prisma.$transaction([
+          prisma.chatMessage.create({
+            data: {
+              summaryId,
+              role: "USER",
+              content: question,
+              createdAt: askedAt,
+            },
+          }),
+          prisma.chatMessage.create({
+            data: {
+              summaryId,
+              role: "ASSISTANT",
+              content: answer.answer,
+              citations: answer.citations,
+              credits: cost,
+            },
+          }),
+        ]);
+
+        logger.info("Chat question answered", {
+          userId,
+          summaryId,
+          excerptSegments: excerpt.length,
+          transcriptSegments: transcript.length,
+          citations: answer.citations.length,
+          creditsCharged: cost,
+        });
+
+        return {
+          success: true,
+          data: {
+            question: this.formatMessage(questionMessage),
+            answer: this.formatMessage(answerMessage),
+            creditsCharged: cost,
+            creditsRemaining,
+          },
+        };
+      } catch (error) {
+        await creditService.refund(
+          userId,
+          cost,
+          { reason: "chat_question_failed_refund", summaryId },
+          context
+        );
+        throw error;
+      }
+    } catch (error) {
+      logger.error("Chat question failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to answer question", 500);
+    }
+  }
+
+  // Get a summary's conversation, oldest first
+  async getThread(
+    userId: string,
+    summaryId: string
+  ): Promise<ServiceResponse<ChatMessageData[]>> {
+    try {
+      await this.assertOwnership(userId, summaryId);
+
+      const messages = await prisma.chatMessage.findMany({
+        where: { summaryId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return {
+        success: true,
+        data: messages.map((message) => this.formatMessage(message)),
+      };
+    } catch (error) {
+      logger.error("Get chat thread failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get conversation", 500);
+    }
+  }
+
+  // Start the conversation over
+  async clearThread(
+    userId: string,
+    summaryId: string
+  ): Promise<ServiceResponse<{ deleted: number }>> {
+    try {
+      await this.assertOwnership(userId, summaryId);
+
+      const result = await prisma.chatMessage.deleteMany({
+        where: { summaryId },
+      });
+
+      logger.info("Chat thread cleared", {
+        userId,
+        summaryId,
+        deleted: result.count,
+      });
+
+      return { success: true, data: { deleted: result.count } };
+    } catch (error) {
+      logger.error("Clear chat thread failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to clear conversation", 500);
+    }
+  }
+
+  private async assertOwnership(
+    userId: string,
+    summaryId: string
+  ): Promise<void> {
+    const summary = await prisma.summary.findFirst({
+      where: { id: summaryId, userId },
+      select: { id: true },
+    });
+
+    if (!summary) {
+      throw new AppError("Summary not found", 404);
+    }
+  }
+
+  private formatMessage(message: ChatMessage): ChatMessageData {
+    return {
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      citations: message.citations.map((startSeconds) => ({
+        startSeconds,
+        timestamp: formatTimestamp(startSeconds),
+      })),
+      createdAt: message.createdAt.toISOString(),
+    };
+  }
+}
+
+export const chatService = new ChatService();
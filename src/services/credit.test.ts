@@ -0,0 +1,131 @@
+import { config } from "../config";
+import { prisma } from "../config/database";
+import { auditService } from "./audit";
+import { creditService, LOW_CREDITS_JOB_TYPE } from "./credit";
+import { jobQueue } from "./jobQueue";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    user: {
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("./audit", () => ({ auditService: { record: jest.fn() } }));
+jest.mock("./jobQueue", () => ({ jobQueue: { enqueue: jest.fn() } }));
+
+const db = prisma as unknown as {
+  user: {
+    updateMany: jest.Mock;
+    update: jest.Mock;
+    findUniqueOrThrow: jest.Mock;
+  };
+  $transaction: jest.Mock;
+};
+
+describe("CreditService", () => {
+  const threshold = config.credits.lowThreshold;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((run: (tx: typeof prisma) => unknown) =>
+      run(prisma)
+    );
+    db.user.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe("charge", () => {
+    it("takes the credits only if the balance covers them", async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ credits: threshold + 10 });
+
+      await expect(
+        creditService.charge("user-1", 2, {
+          reason: "chapters",
+          summaryId: "summary-1",
+        })
+      ).resolves.toBe(threshold + 10);
+
+      expect(db.user.updateMany).toHaveBeenCalledWith({
+        where: { id: "user-1", credits: { gte: 2 } },
+        data: { credits: { decrement: 2 } },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "user.credits_deducted",
+          targetId: "summary-1",
+          metadata: {
+            credits: 2,
+            newBalance: threshold + 10,
+            reason: "chapters",
+          },
+        }),
+        {},
+        prisma
+      );
+      expect(jobQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it("rejects a charge the balance no longer covers", async () => {
+      db.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        creditService.charge("user-1", 2, { reason: "chapters" })
+      ).rejects.toMatchObject({ statusCode: 402 });
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+
+    it("queues a low-credit warning when the balance crosses the threshold", async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ credits: threshold });
+
+      await creditService.charge("user-1", 1, { reason: "chat_question" });
+
+      expect(jobQueue.enqueue).toHaveBeenCalledWith(
+        LOW_CREDITS_JOB_TYPE,
+        { userId: "user-1", creditsRemaining: threshold },
+        {},
+        prisma
+      );
+    });
+
+    it("warns only once, not on every charge below the threshold", async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ credits: threshold - 2 });
+
+      await creditService.charge("user-1", 1, { reason: "chat_question" });
+
+      expect(jobQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it("records nothing for free actions", async () => {
+      db.user.findUniqueOrThrow.mockResolvedValue({ credits: 0 });
+
+      await creditService.charge("user-1", 0, { reason: "summary_cache_hit" });
+
+      expect(db.user.updateMany).not.toHaveBeenCalled();
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refund", () => {
+    it("returns the credits and audits the refund", async () => {
+      await creditService.refund("user-1", 3, {
+        reason: "translation_failed_refund",
+      });
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: "user-1" },
+        data: { credits: { increment: 3 } },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "user.credits_added",
+          metadata: { credits: 3, reason: "translation_failed_refund" },
+        }),
+        {},
+        prisma
+      );
+    });
+  });
+});
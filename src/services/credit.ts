@@ -0,0 +1,140 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { auditService } from "./audit";
+import { emailService } from "./email";
+import { jobQueue } from "./jobQueue";
+import { webhookService } from "./webhook";
+import { AuditContext, CreditReason } from "../types";
+
+// Job type that sends the low-credit email and webhook once a charge has committed
+export const LOW_CREDITS_JOB_TYPE = "credits.low";
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+export class CreditService {
+  // Take credits for a paid action and return the balance left; pass a transaction
+  // client to charge atomically with the action's own writes. Throws 402 when the
+  // balance doesn't cover the cost.
+  async charge(
+    userId: string,
+    cost: number,
+    reason: CreditReason,
+    context: AuditContext = {},
+    client?: PrismaClientLike
+  ): Promise<number> {
+    if (!client) {
+      return prisma.$transaction((tx) =>
+        this.charge(userId, cost, reason, context, tx)
+      );
+    }
+
+    // The guard stops concurrent requests overdrawing the balance
+    if (cost > 0) {
+      const charged = await client.user.updateMany({
+        where: { id: userId, credits: { gte: cost } },
+        data: { credits: { decrement: cost } },
+      });
+
+      if (charged.count === 0) {
+        throw new AppError("Insufficient credits", 402);
+      }
+    }
+
+    const { credits: creditsRemaining } = await client.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { credits: true },
+    });
+
+    if (cost === 0) {
+      return creditsRemaining;
+    }
+
+    await auditService.record(
+      {
+        action: "user.credits_deducted",
+        targetUserId: userId,
+        targetType: reason.summaryId ? "summary" : undefined,
+        targetId: reason.summaryId,
+        metadata: {
+          credits: cost,
+          newBalance: creditsRemaining,
+          reason: reason.reason,
+        },
+      },
+      context,
+      client
+    );
+
+    // Warn once, when the balance first crosses the low-credit threshold. The warning
+    // is queued so it only goes out if the charge commits.
+    const threshold = config.credits.lowThreshold;
+    if (creditsRemaining + cost > threshold && creditsRemaining <= threshold) {
+      await jobQueue.enqueue(
+        LOW_CREDITS_JOB_TYPE,
+        { userId, creditsRemaining },
+        {},
+        client
+      );
+    }
+
+    return creditsRemaining;
+  }
+
+  // Give back credits taken for an action that didn't happen
+  async refund(
+    userId: string,
+    credits: number,
+    reason: CreditReason,
+    context: AuditContext = {},
+    client: PrismaClientLike = prisma
+  ): Promise<void> {
+    if (credits <= 0) {
+      return;
+    }
+
+    await client.user.update({
+      where: { id: userId },
+      data: { credits: { increment: credits } },
+    });
+
+    await auditService.record(
+      {
+        action: "user.credits_added",
+        targetUserId: userId,
+        targetType: reason.summaryId ? "summary" : undefined,
+        targetId: reason.summaryId,
+        metadata: { credits, reason: reason.reason },
+      },
+      context,
+      client
+    );
+  }
+
+  // Tell the user their balance is running low (called by the job worker)
+  async notifyLowCredits(
+    userId: string,
+    creditsRemaining: number
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    await emailService.sendLowCreditWarning(user.email, creditsRemaining);
+    await webhookService.dispatch(userId, "credits.low", {
+      creditsRemaining,
+      threshold: config.credits.lowThreshold,
+    });
+
+    logger.info("Low credit warning sent", { userId, creditsRemaining });
+  }
+}
+
+export const creditService = new CreditService();
@@ -0,0 +1,300 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+import { UserPlan } from "@prisma/client";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { EmailMessage, ServiceResponse } from "../types";
+
+// Transport contract so delivery can be swapped without touching templates
+export interface MailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Delivers through the SMTP server configured in config.email
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: config.email.host,
+      port: config.email.port ?? 587,
+      secure: config.email.port === 465,
+      auth: config.email.user
+        ? { user: config.email.user, pass: config.email.pass }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Keeps messages in memory; useful for tests and local development
+export class MemoryTransport implements MailTransport {
+  readonly name = "memory";
+  readonly outbox: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.outbox.push(message);
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
+
+// Writes each message as an .eml file into an outbox directory
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+  private transporter: Transporter;
+
+  constructor(private outboxDir: string) {
+    this.transporter = nodemailer.createTransport({
+      streamTransport: true,
+      buffer: true,
+      newline: "unix",
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.transporter.sendMail(message);
+    const fileName = `${Date.now()}-${message.template}.eml`;
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    await fs.writeFile(path.join(this.outboxDir, fileName), info.message);
+  }
+}
+
+// Pick a transport from config. Without one, SMTP is used when a host is set, the
+// in-memory outbox in tests and .eml files otherwise (config rejects this in production)
+const createTransport = (): MailTransport => {
+  switch (config.email.transport) {
+    case "smtp":
+      return new SmtpTransport();
+    case "file":
+      return new FileTransport(config.email.outboxDir);
+    case "memory":
+      return new MemoryTransport();
+    default:
+      if (config.email.host) {
+        return new SmtpTransport();
+      }
+
+      return config.server.nodeEnv === "test"
+        ? new MemoryTransport()
+        : new FileTransport(config.email.outboxDir);
+  }
+};
+
+export class EmailService {
+  private transport: MailTransport;
+
+  constructor(transport: MailTransport = createTransport()) {
+    this.transport = transport;
+  }
+
+  // Replace the active transport (e.g. with a MemoryTransport in tests)
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransport(): MailTransport {
+    return this.transport;
+  }
+
+  // Send welcome email after registration
+  async sendWelcomeEmail(
+    to: string,
+    name: string | null
+  ): Promise<ServiceResponse<void>> {
+    return this.send({
+      to,
+      template: "welcome",
+      subject: "Welcome to Knugget AI",
+      text: [
+        `Hi ${name || "there"},`,
+        "",
+        "Thanks for signing up for Knugget AI. Open any YouTube video and let Knugget summarize it for you.",
+        `You start with ${config.credits.freeMonthly} free credits each month.`,
+      ].join("\n"),
+    });
+  }
+
+  // Send email verification link
+  async sendVerificationEmail(
+    to: string,
+    token: string
+  ): Promise<ServiceResponse<void>> {
+    const link = `${config.email.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    return this.send({
+      to,
+      template: "verification",
+      subject: "Verify your Knugget AI email",
+      text: [
+        "Please confirm your email address by opening the link below:",
+        "",
+        link,
+        "",
+        `This link expires in ${config.auth.emailVerificationTtlHours} hours.`,
+      ].join("\n"),
+      link,
+    });
+  }
+
+  // Send password reset link
+  async sendPasswordResetEmail(
+    to: string,
+    token: string
+  ): Promise<ServiceResponse<void>> {
+    const link = `${config.email.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    return this.send({
+      to,
+      template: "password-reset",
+      subject: "Reset your Knugget AI password",
+      text: [
+        "We received a request to reset your password. Open the link below to choose a new one:",
+        "",
+        link,
+        "",
+        `This link expires in ${config.auth.passwordResetTtlMinutes} minutes. If you didn't ask for this, you can ignore this email.`,
+      ].join("\n"),
+      link,
+    });
+  }
+
+  // Warn user that their credit balance is running low
+  async sendLowCreditWarning(
+    to: string,
+    creditsRemaining: number
+  ): Promise<ServiceResponse<void>> {
+    return this.send({
+      to,
+      template: "low-credits",
+      subject: "You're running low on Knugget AI credits",
+      text: [
+        `You have ${creditsRemaining} credit${creditsRemaining === 1 ? "" : "s"} left.`,
+        "",
+        `Credits are topped up each month. For more, contact support about upgrading to Premium (${config.credits.premiumMonthly} credits a month).`,
+      ].join("\n"),
+    });
+  }
+
+  // Notify user that their plan changed
+  async sendPlanChangeEmail(
+    to: string,
+    oldPlan: UserPlan,
+    newPlan: UserPlan
+  ): Promise<ServiceResponse<void>> {
+    const monthlyCredits =
+      newPlan === "PREMIUM"
+        ? config.credits.premiumMonthly
+        : config.credits.freeMonthly;
+
+    return this.send({
+      to,
+      template: "plan-change",
+      subject: `Your Knugget AI plan is now ${newPlan}`,
+      text: [
+        `Your plan has changed from ${oldPlan} to ${newPlan}.`,
+        "",
+        `You now receive ${monthlyCredits} credits each month.`,
+      ].join("\n"),
+    });
+  }
+
+  // Tell the user their account was locked and offer an unlock link
+  async sendAccountLockedEmail(
+    to: string,
+    token: string,
+    lockedUntil: Date
+  ): Promise<ServiceResponse<void>> {
+    const link = `${config.email.appUrl}/unlock-account?token=${encodeURIComponent(token)}`;
+
+    return this.send({
+      to,
+      template: "account-locked",
+      subject: "Your Knugget AI account was temporarily locked",
+      text: [
+        "We locked your account after several failed sign-in attempts.",
+        "",
+        `It will unlock automatically at ${lockedUntil.toUTCString()}. If this was you, you can unlock it now:`,
+        "",
+        link,
+        "",
+        "If this wasn't you, consider resetting your password.",
+      ].join("\n"),
+      link,
+    });
+  }
+
+  // Render and deliver a message; never throws so callers aren't blocked by mail failures
+  private async send(
+    message: Omit<EmailMessage, "from" | "html"> & { link?: string }
+  ): Promise<ServiceResponse<void>> {
+    const { link, ...rest } = message;
+    const email: EmailMessage = {
+      ...rest,
+      from: this.formatFrom(),
+      html: this.renderHtml(message.subject, message.text, link),
+    };
+
+    try {
+      await this.transport.send(email);
+
+      logger.info("Email sent", {
+        to: email.to,
+        template: email.template,
+        transport: this.transport.name,
+      });
+
+      return { success: true };
+    } catch (error) {
+      logger.error("Email delivery failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        to: email.to,
+        template: email.template,
+        transport: this.transport.name,
+      });
+
+      return { success: false, error: "Email delivery failed" };
+    }
+  }
+
+  private formatFrom(): string {
+    const fromEmail = config.email.fromEmail || "no-reply@knugget.com";
+    return config.email.fromName
+      ? `"${config.email.fromName}" <${fromEmail}>`
+      : fromEmail;
+  }
+
+  // Minimal HTML layout shared by all templates
+  private renderHtml(subject: string, text: string, link?: string): string {
+    const escape = (value: string) =>
+      value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+    const paragraphs = text
+      .split("\n\n")
+      .map((block) => `<p>${escape(block).replace(/\n/g, "<br>")}</p>`)
+      .join("");
+
+    const button = link
+      ? `<p><a href="${escape(link)}" style="background:#f97316;color:#fff;padding:10px 18px;border-radius:6px;text-decoration:none;">Open Knugget</a></p>`
+      : "";
+
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escape(
+      subject
+    )}</title></head><body style="font-family:sans-serif;line-height:1.5;color:#111;">${paragraphs}${button}</body></html>`;
+  }
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,160 @@
+import { Job } from "@prisma/client";
+import { config } from "../config";
+import { prisma } from "../config/database";
+import { AppError } from "../middleware/errorHandler";
+import { JobHandler, JobQueueService } from "./jobQueue";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    job: { updateMany: jest.fn() },
+    $queryRaw: jest.fn(),
+  },
+}));
+
+const db = prisma as unknown as {
+  job: { updateMany: jest.Mock };
+  $queryRaw: jest.Mock;
+};
+
+const makeJob = (overrides: Partial<Job> = {}): Job =>
+  ({
+    id: "job-1",
+    type: "test.job",
+    payload: { value: 1 },
+    status: "RUNNING",
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: new Date(),
+    lockedAt: new Date(),
+    lockedBy: "worker",
+    lastError: null,
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }) as Job;
+
+const updates = () =>
+  db.job.updateMany.mock.calls.map(([args]) => args.data.status ?? "REFRESH");
+
+describe("JobQueueService", () => {
+  let queue: JobQueueService;
+  let handler: { run: jest.Mock; onFailure: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.job.updateMany.mockResolvedValue({ count: 1 });
+
+    queue = new JobQueueService();
+    handler = { run: jest.fn(), onFailure: jest.fn() };
+    queue.registerHandler("test.job", handler as JobHandler);
+  });
+
+  it("claims nothing when no handlers are registered", async () => {
+    await expect(new JobQueueService()["claimNext"]()).resolves.toBeNull();
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("returns the claimed job", async () => {
+    const job = makeJob();
+    db.$queryRaw.mockResolvedValue([job]);
+
+    await expect(queue["claimNext"]()).resolves.toBe(job);
+  });
+
+  it("completes a job only while it still holds the lock", async () => {
+    const job = makeJob({ attempts: 2 });
+
+    await queue["execute"](job);
+
+    expect(handler.run).toHaveBeenCalledWith(job.payload, job);
+    expect(db.job.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "job-1",
+        status: "RUNNING",
+        lockedBy: expect.any(String),
+        attempts: 2,
+      },
+      data: expect.objectContaining({ status: "COMPLETED" }),
+    });
+  });
+
+  it("requeues transient failures with backoff", async () => {
+    handler.run.mockRejectedValue(
+      new AppError("Rate limited", 429, true, undefined, "RATE_LIMITED", true)
+    );
+
+    await queue["execute"](makeJob());
+
+    expect(updates()).toEqual(["QUEUED"]);
+    const { runAt } = db.job.updateMany.mock.calls[0][0].data;
+    expect(runAt.getTime()).toBeGreaterThan(Date.now());
+    expect(handler.onFailure).not.toHaveBeenCalled();
+  });
+
+  it("fails AI errors for good instead of paying for the pipeline again", async () => {
+    const error = new AppError("AI summary generation failed", 500);
+    handler.run.mockRejectedValue(error);
+
+    await queue["execute"](makeJob());
+
+    expect(updates()).toEqual(["FAILED"]);
+    expect(handler.onFailure).toHaveBeenCalledWith(
+      { value: 1 },
+      error,
+      expect.anything()
+    );
+  });
+
+  it("fails the job once attempts run out", async () => {
+    handler.run.mockRejectedValue(new Error("connection reset"));
+
+    await queue["execute"](makeJob({ attempts: 3 }));
+
+    expect(updates()).toEqual(["FAILED"]);
+    expect(handler.onFailure).toHaveBeenCalled();
+  });
+
+  it("gives up a job reclaimed too many times without running it", async () => {
+    await queue["execute"](makeJob({ attempts: 4 }));
+
+    expect(handler.run).not.toHaveBeenCalled();
+    expect(updates()).toEqual(["FAILED"]);
+    expect(handler.onFailure).toHaveBeenCalled();
+  });
+
+  it("leaves a job it lost to another worker alone", async () => {
+    handler.run.mockRejectedValue(new AppError("AI failed", 500));
+    db.job.updateMany.mockResolvedValue({ count: 0 });
+
+    await queue["execute"](makeJob());
+
+    expect(handler.onFailure).not.toHaveBeenCalled();
+  });
+
+  it("refreshes the lock while the handler runs", async () => {
+    jest.useFakeTimers();
+    try {
+      let finish: () => void = () => undefined;
+      handler.run.mockReturnValue(
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        })
+      );
+
+      const running = queue["execute"](makeJob());
+      await jest.advanceTimersByTimeAsync(
+        config.jobs.lockTimeoutMinutes * 60 * 1000
+      );
+      finish();
+      await running;
+
+      expect(updates()).toEqual(["REFRESH", "REFRESH", "REFRESH", "COMPLETED"]);
+      expect(db.job.updateMany.mock.calls[0][0].data).toEqual({
+        lockedAt: expect.any(Date),
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,360 @@
+import os from "os";
+import { Job, Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+
+// Retry delays grow 30s, 60s, 120s, ... capped at 15 minutes
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// Completed and failed jobs older than this are pruned by the cleanup task
+const JOB_RETENTION_DAYS = 7;
+
+export interface JobHandler<T = any> {
+  // Do the work; throwing schedules a retry until attempts run out
+  run(payload: T, job: Job): Promise<void>;
+  // Called once when the job has failed for good
+  onFailure?(payload: T, error: unknown, job: Job): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+export class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private running = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private stopping = false;
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  // Register the handler for a job type
+  registerHandler<T>(type: string, handler: JobHandler<T>): void {
+    this.handlers.set(type, handler);
+  }
+
+  // Add a job; pass a transaction client to enqueue atomically with other writes
+  async enqueue<T extends Prisma.InputJsonValue>(
+    type: string,
+    payload: T,
+    options: EnqueueOptions = {},
+    client: PrismaClientLike = prisma
+  ): Promise<Job> {
+    const job = await client.job.create({
+      data: {
+        type,
+        payload,
+        runAt: options.runAt ?? new Date(),
+        maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+      },
+    });
+
+    logger.info("Job enqueued", { jobId: job.id, type });
+    return job;
+  }
+
+  // Start polling for work
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.stopping = false;
+    this.scheduleNextPoll();
+
+    logger.info("Job worker started", {
+      workerId: this.workerId,
+      concurrency: config.jobs.concurrency,
+      handlers: Array.from(this.handlers.keys()),
+    });
+  }
+
+  // Stop polling and wait for in-flight jobs to finish
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.running > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    logger.info("Job worker stopped", { workerId: this.workerId });
+  }
+
+  // Poll again once the previous pass is done, so passes never overlap and overclaim
+  private scheduleNextPoll(): void {
+    this.timer = setTimeout(() => {
+      void this.poll().finally(() => {
+        if (!this.stopping) {
+          this.scheduleNextPoll();
+        }
+      });
+    }, config.jobs.pollIntervalMs);
+  }
+
+  // Fill free worker slots with claimable jobs
+  private async poll(): Promise<void> {
+    while (!this.stopping && this.running < config.jobs.concurrency) {
+      let job: Job | null;
+      try {
+        job = await this.claimNext();
+      } catch (error) {
+        logger.error("Job claim failed", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        return;
+      }
+
+      if (!job) {
+        return;
+      }
+
+      this.running++;
+      void this.execute(job).finally(() => {
+        this.running--;
+      });
+    }
+  }
+
+  // Atomically claim the next due job; SKIP LOCKED lets several workers share the table
+  private async claimNext(): Promise<Job | null> {
+    const types = Array.from(this.handlers.keys());
+    if (types.length === 0) {
+      return null;
+    }
+
+    // Timestamps come from the app, like every other write; NOW() would be in the
+    // database session's time zone, which the zone-less columns don't record
+    const now = new Date();
+    const staleBefore = new Date(
+      now.getTime() - config.jobs.lockTimeoutMinutes * 60 * 1000
+    );
+
+    const jobs = await prisma.$queryRaw<Job[]>`
+      UPDATE "jobs"
+      SET "status" = 'RUNNING',
+          "attempts" = "attempts" + 1,
+          "lockedAt" = ${now},
+          "lockedBy" = ${this.workerId},
+          "updatedAt" = ${now}
+      WHERE "id" = (
+        SELECT "id" FROM "jobs"
+        WHERE "type" IN (${Prisma.join(types)})
+          AND (
+            ("status" = 'QUEUED' AND "runAt" <= ${now})
+            OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+          )
+        ORDER BY "runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return jobs[0] ?? null;
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      return;
+    }
+
+    // Reclaimed after a worker died mid-run one time too many
+    if (job.attempts > job.maxAttempts) {
+      await this.handleFailure(job, handler, new Error("Job timed out"));
+      return;
+    }
+
+    // Keep the lock fresh so a long run isn't mistaken for a dead worker and reclaimed
+    const heartbeat = setInterval(() => {
+      void this.refreshLock(job);
+    }, (config.jobs.lockTimeoutMinutes * 60 * 1000) / 3);
+    heartbeat.unref();
+
+    try {
+      await handler.run(job.payload, job);
+
+      const completed = await prisma.job.updateMany({
+        where: this.ownedBy(job),
+        data: {
+          status: "COMPLETED",
+          completedAt: new Date(),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+        },
+      });
+
+      if (completed.count === 0) {
+        this.logLostLock(job);
+        return;
+      }
+
+      logger.info("Job completed", {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+      });
+    } catch (error) {
+      await this.handleFailure(job, handler, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Matches the job only while this run still holds it: a reclaim bumps attempts and
+  // may change lockedBy, after which this run must not touch the row again
+  private ownedBy(job: Job): Prisma.JobWhereInput {
+    return {
+      id: job.id,
+      status: "RUNNING",
+      lockedBy: this.workerId,
+      attempts: job.attempts,
+    };
+  }
+
+  private async refreshLock(job: Job): Promise<void> {
+    try {
+      const refreshed = await prisma.job.updateMany({
+        where: this.ownedBy(job),
+        data: { lockedAt: new Date() },
+      });
+
+      if (refreshed.count === 0) {
+        this.logLostLock(job);
+      }
+    } catch (error) {
+      logger.error("Job lock refresh failed", {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  private logLostLock(job: Job): void {
+    logger.warn("Job lock lost; leaving the job to its new owner", {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+    });
+  }
+
+  // Retry with backoff, or mark the job failed once attempts are exhausted
+  private async handleFailure(
+    job: Job,
+    handler: JobHandler,
+    error: unknown
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const canRetry =
+      job.attempts < job.maxAttempts && this.isRetryable(error);
+
+    try {
+      if (canRetry) {
+        const delay = Math.min(
+          RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1),
+          RETRY_MAX_DELAY_MS
+        );
+
+        const requeued = await prisma.job.updateMany({
+          where: this.ownedBy(job),
+          data: {
+            status: "QUEUED",
+            runAt: new Date(Date.now() + delay),
+            lockedAt: null,
+            lockedBy: null,
+            lastError: message,
+          },
+        });
+
+        if (requeued.count === 0) {
+          this.logLostLock(job);
+          return;
+        }
+
+        logger.warn("Job failed, retry scheduled", {
+          jobId: job.id,
+          type: job.type,
+          attempts: job.attempts,
+          retryInMs: delay,
+          error: message,
+        });
+        return;
+      }
+
+      const failed = await prisma.job.updateMany({
+        where: this.ownedBy(job),
+        data: {
+          status: "FAILED",
+          completedAt: new Date(),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: message,
+        },
+      });
+
+      // The new owner decides the job's fate, including running onFailure
+      if (failed.count === 0) {
+        this.logLostLock(job);
+        return;
+      }
+
+      logger.error("Job failed permanently", {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+        error: message,
+      });
+
+      await handler.onFailure?.(job.payload, error, job);
+    } catch (failureError) {
+      logger.error("Job failure handling failed", {
+        jobId: job.id,
+        error:
+          failureError instanceof Error ? failureError.message : "Unknown error",
+      });
+    }
+  }
+
+  // Only errors marked transient are retried. A plain 5xx from a handler usually means
+  // paid work (e.g. the LLM pipeline, which retries its own calls) already failed
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof AppError) {
+      return error.retryable === true || error.statusCode === 429;
+    }
+
+    return true;
+  }
+
+  // Prune finished jobs
+  async cleanupOldJobs(): Promise<void> {
+    try {
+      const cutoff = new Date(
+        Date.now() - JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000
+      );
+
+      const result = await prisma.job.deleteMany({
+        where: {
+          status: { in: ["COMPLETED", "FAILED"] },
+          completedAt: { lt: cutoff },
+        },
+      });
+
+      logger.info("Old jobs cleaned up", { count: result.count });
+    } catch (error) {
+      logger.error("Job cleanup failed", { error });
+    }
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,498 @@
+import crypto from "crypto";
+import OpenAI from "openai";
+import { UserPlan } from "@prisma/client";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+  LLMProviderName,
+  LLMTarget,
+  LLMUsage,
+} from "../types";
+
+// Hosted model list prices, USD per 1M tokens. LLM_PRICING adds to or overrides these;
+// anything unpriced (local and fake models) is costed at zero.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4-turbo-preview": { input: 10, output: 30 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+};
+
+// Token counts as reported by OpenAI-compatible APIs
+interface RawUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// The parts of an OpenAI-compatible /chat/completions response the local provider reads
+interface LocalCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: RawUsage | null;
+}
+
+// One server-sent chunk of a streamed /chat/completions response
+interface LocalCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: RawUsage | null;
+}
+
+// Price a call from the list above
+const estimateCost = (
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number => {
+  const price = config.llm.pricing[model] ?? MODEL_PRICING[model];
+  if (!price) {
+    return 0;
+  }
+
+  const cost =
+    (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+};
+
+const toUsage = (model: string, raw?: RawUsage | null): LLMUsage | null => {
+  if (!raw) {
+    return null;
+  }
+
+  const promptTokens = raw.prompt_tokens ?? 0;
+  const completionTokens = raw.completion_tokens ?? 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    costUsd: estimateCost(model, promptTokens, completionTokens),
+  };
+};
+
+// Read retry-after-ms / retry-after (seconds or HTTP date) from a 429 response
+const parseRetryAfter = (
+  getHeader: (name: string) => string | null | undefined
+): number | undefined => {
+  const ms = Number(getHeader("retry-after-ms"));
+  if (ms > 0) {
+    return ms;
+  }
+
+  const value = getHeader("retry-after");
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const rateLimitError = (retryAfterMs?: number): AppError => {
+  const error = new AppError(
+    "AI service rate limit exceeded",
+    429,
+    true,
+    undefined,
+    undefined,
+    true
+  );
+  error.retryAfterMs = retryAfterMs;
+  return error;
+};
+
+// Hosted OpenAI chat completions
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  private client: OpenAI | null = null;
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const params = {
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.json && {
+        response_format: { type: "json_object" as const },
+      }),
+    };
+
+    try {
+      if (!request.onDelta) {
+        const completion = await this.getClient().chat.completions.create(
+          params
+        );
+        return {
+          content: completion.choices[0]?.message?.content ?? null,
+          usage: toUsage(request.model, completion.usage),
+        };
+      }
+
+      const stream = await this.getClient().chat.completions.create({
+        ...params,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let content = "";
+      let usage: RawUsage | null = null;
+      for await (const chunk of stream) {
+        // Usage arrives on a final chunk with no choices
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          request.onDelta(delta);
+        }
+      }
+
+      return { content: content || null, usage: toUsage(request.model, usage) };
+    } catch (error) {
+      if (error instanceof OpenAI.APIError && error.code === "insufficient_quota") {
+        throw new AppError("AI service quota exceeded", 503);
+      }
+
+      if (
+        error instanceof OpenAI.APIError &&
+        (error.code === "rate_limit_exceeded" || error.status === 429)
+      ) {
+        throw rateLimitError(
+          parseRetryAfter((name) => error.headers?.[name])
+        );
+      }
+
+      // Connection failures, timeouts and 5xx are worth another try
+      if (
+        error instanceof OpenAI.APIConnectionError ||
+        (error instanceof OpenAI.APIError &&
+          error.status !== undefined &&
+          error.status >= 500)
+      ) {
+        throw new AppError(
+          "AI service unavailable",
+          503,
+          true,
+          undefined,
+          undefined,
+          true
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  // Created on first use so deployments without an OpenAI key can still boot
+  private getClient(): OpenAI {
+    if (!config.openai.apiKey) {
+      throw new AppError("OpenAI API key is not configured", 503);
+    }
+
+    if (!this.client) {
+      // Retries are handled by the caller so they can be counted and bounded
+      this.client = new OpenAI({ apiKey: config.openai.apiKey, maxRetries: 0 });
+    }
+
+    return this.client;
+  }
+}
+
+// Self-hosted server exposing the OpenAI /chat/completions API (Ollama, llama.cpp, vLLM)
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = "local" as const;
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const { baseUrl, apiKey, timeoutMs } = config.llm.local;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: !!request.onDelta,
+          ...(request.onDelta && { stream_options: { include_usage: true } }),
+          ...(request.json && { response_format: { type: "json_object" } }),
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      logger.warn("Local LLM request failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        baseUrl,
+      });
+      throw new AppError(
+        "Local AI service unavailable",
+        503,
+        true,
+        undefined,
+        undefined,
+        true
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      logger.warn("Local LLM returned an error", {
+        status: response.status,
+        body: body.slice(0, 500),
+      });
+
+      if (response.status === 429) {
+        throw rateLimitError(
+          parseRetryAfter((name) => response.headers.get(name))
+        );
+      }
+
+      throw new AppError(
+        "Local AI service error",
+        502,
+        true,
+        undefined,
+        undefined,
+        response.status >= 500
+      );
+    }
+
+    if (!request.onDelta) {
+      const completion = (await response.json()) as LocalCompletionResponse;
+      return {
+        content: completion.choices?.[0]?.message?.content ?? null,
+        usage: toUsage(request.model, completion.usage),
+      };
+    }
+
+    const { content, usage } = await this.readStream(response, request.onDelta);
+    return { content: content || null, usage: toUsage(request.model, usage) };
+  }
+
+  // Parse the server-sent event stream of chat completion chunks
+  private async readStream(
+    response: Response,
+    onDelta: (delta: string) => void
+  ): Promise<{ content: string; usage: RawUsage | null }> {
+    let content = "";
+    let usage: RawUsage | null = null;
+
+    if (!response.body) {
+      return { content, usage };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith("data:")) {
+          continue;
+        }
+
+        const payload = data.slice(5).trim();
+        if (payload === "[DONE]") {
+          return { content, usage };
+        }
+
+        try {
+          const chunk = JSON.parse(payload) as LocalCompletionChunk;
+          if (chunk.usage) {
+            usage = chunk.usage;
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+        } catch {
+          // Ignore keep-alive comments and partial frames
+        }
+      }
+    }
+
+    return { content, usage };
+  }
+}
+
+// Deterministic, offline provider for tests and local development
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake" as const;
+  private responder:
+    | ((request: LLMCompletionRequest) => string | null)
+    | null = null;
+
+  // Override the canned response, e.g. to simulate malformed output
+  setResponder(
+    responder: ((request: LLMCompletionRequest) => string | null) | null
+  ): void {
+    this.responder = responder;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const content = this.responder
+      ? this.responder(request)
+      : this.defaultResponse(request);
+
+    if (content && request.onDelta) {
+      // Emit in small pieces so streaming consumers are exercised
+      for (let i = 0; i < content.length; i += 16) {
+        request.onDelta(content.slice(i, i + 16));
+      }
+    }
+
+    // Roughly four characters per token, like the real tokenizers
+    const prompt = request.messages.map((message) => message.content).join("\n");
+    return {
+      content,
+      usage: toUsage(request.model, {
+        prompt_tokens: Math.ceil(prompt.length / 4),
+        completion_tokens: Math.ceil((content?.length ?? 0) / 4),
+      }),
+    };
+  }
+
+  // Same prompt, same answer, shaped by what the call is for
+  private defaultResponse(request: LLMCompletionRequest): string {
+    const prompt = request.messages.map((message) => message.content).join("\n");
+    const digest = crypto
+      .createHash("sha256")
+      .update(prompt)
+      .digest("hex")
+      .slice(0, 8);
+
+    // Cite the first transcript timestamps in the prompt, like a well-behaved model
+    const timestamps = Array.from(
+      prompt.matchAll(/\[(\d+(?::\d{2}){1,2})\]/g),
+      (match) => match[1]
+    );
+
+    switch (request.purpose) {
+      case "summary":
+      case "final":
+        return JSON.stringify({
+          keyPoints: ["one", "two", "three"].map((label, i) => ({
+            text: `Key point ${label} (${digest})`,
+            timestamp: timestamps[i] ?? null,
+          })),
+          fullSummary: `Deterministic summary ${digest} generated by the fake provider.`,
+          tags: ["fake", `digest-${digest}`],
+        });
+
+      case "chapters": {
+        // One chapter per third of the cited timestamps
+        const step = Math.max(1, Math.floor(timestamps.length / 3));
+        const starts = [0, step, step * 2]
+          .map((i) => timestamps[i])
+          .filter((start): start is string => start !== undefined);
+
+        return JSON.stringify({
+          chapters: (starts.length > 0 ? starts : ["0:00"]).map((start, i) => ({
+            title: `Chapter ${i + 1} (${digest})`,
+            start,
+            summary: `Deterministic chapter ${i + 1} generated by the fake provider.`,
+          })),
+        });
+      }
+
+      case "chat": {
+        const cited = timestamps.slice(0, 2);
+
+        return JSON.stringify({
+          answer: `Deterministic answer ${digest}${cited.map((t) => ` [${t}]`).join("")}.`,
+          citations: cited,
+        });
+      }
+
+      case "translation": {
+        // Echo the source summary (the first JSON object in the prompt), tagged as translated
+        const source = JSON.parse(prompt.slice(prompt.indexOf("{"), prompt.indexOf("\n}") + 2));
+        const tag = (text: string) => `[translated ${digest}] ${text}`;
+
+        return JSON.stringify({
+          keyPoints: source.keyPoints.map(tag),
+          fullSummary: tag(source.fullSummary),
+          tags: source.tags,
+        });
+      }
+
+      default:
+        return request.json
+          ? "{}"
+          : `[${timestamps[0] ?? "0:00"}] Summary ${digest} of the provided text.`;
+    }
+  }
+}
+
+export class LLMService {
+  private providers: Record<LLMProviderName, LLMProvider> = {
+    openai: new OpenAIProvider(),
+    local: new LocalLLMProvider(),
+    fake: new FakeLLMProvider(),
+  };
+
+  getProvider(name: LLMProviderName): LLMProvider {
+    return this.providers[name];
+  }
+
+  // Pick the provider and model for a plan, falling back to the defaults
+  resolve(plan?: UserPlan): LLMTarget {
+    const planConfig = plan ? config.llm.plans[plan] : undefined;
+    const provider = planConfig?.provider ?? config.llm.provider;
+
+    return {
+      provider,
+      model: planConfig?.model ?? this.defaultModel(provider),
+    };
+  }
+
+  // Run a completion against the given target
+  complete(
+    target: LLMTarget,
+    request: Omit<LLMCompletionRequest, "model">
+  ): Promise<LLMCompletionResult> {
+    return this.getProvider(target.provider).complete({
+      ...request,
+      model: target.model,
+    });
+  }
+
+  private defaultModel(provider: LLMProviderName): string {
+    switch (provider) {
+      case "openai":
+        return config.openai.model;
+      case "local":
+        return config.llm.local.model;
+      case "fake":
+        return "fake";
+    }
+  }
+}
+
+export const llmService = new LLMService();
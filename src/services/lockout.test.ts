@@ -0,0 +1,273 @@
+import { config } from "../config";
+import { prisma } from "../config/database";
+import { auditService } from "./audit";
+import { emailService } from "./email";
+import { lockoutService } from "./lockout";
+import { SessionContext } from "../types";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    loginAttempt: { create: jest.fn(), count: jest.fn() },
+    user: { update: jest.fn() },
+    accountLockout: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("./audit", () => ({ auditService: { record: jest.fn() } }));
+jest.mock("./email", () => ({
+  emailService: { sendAccountLockedEmail: jest.fn() },
+}));
+
+const db = prisma as unknown as {
+  loginAttempt: { create: jest.Mock; count: jest.Mock };
+  user: { update: jest.Mock };
+  accountLockout: {
+    findUnique: jest.Mock;
+    updateMany: jest.Mock;
+    create: jest.Mock;
+  };
+  $transaction: jest.Mock;
+};
+
+const context: SessionContext = {
+  ipAddress: "203.0.113.7",
+  clientType: "WEB_APP",
+};
+
+const account = (
+  overrides: {
+    failedLoginCount?: number;
+    lastFailedLoginAt?: Date | null;
+    lockedUntil?: Date | null;
+  } = {}
+) => ({
+  id: "user-1",
+  email: "ada@example.com",
+  failedLoginCount: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+  ...overrides,
+});
+
+const expectError = (run: () => unknown, statusCode: number, code: string) => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toMatchObject({ statusCode, code });
+    return;
+  }
+  throw new Error("Expected an error");
+};
+
+describe("LockoutService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((operations: unknown) =>
+      typeof operations === "function"
+        ? operations(prisma)
+        : Promise.all(operations as Promise<unknown>[])
+    );
+  });
+
+  describe("assertAccountAllowed", () => {
+    it("rejects a locked account", () => {
+      const user = account({ lockedUntil: new Date(Date.now() + 60_000) });
+
+      expectError(
+        () => lockoutService.assertAccountAllowed(user),
+        423,
+        "ACCOUNT_LOCKED"
+      );
+    });
+
+    it("throttles with a delay that doubles per failure", () => {
+      const user = account({
+        failedLoginCount: 4,
+        lastFailedLoginAt: new Date(),
+      });
+
+      expectError(
+        () => lockoutService.assertAccountAllowed(user),
+        429,
+        "LOGIN_THROTTLED"
+      );
+    });
+
+    it("allows the attempt once the delay has passed or the lock expired", () => {
+      const user = account({
+        failedLoginCount: 4,
+        lastFailedLoginAt: new Date(Date.now() - 5_000),
+        lockedUntil: new Date(Date.now() - 1_000),
+      });
+
+      expect(() => lockoutService.assertAccountAllowed(user)).not.toThrow();
+    });
+  });
+
+  describe("recordFailure", () => {
+    it("counts the failure without locking below the threshold", async () => {
+      db.user.update.mockResolvedValue({ failedLoginCount: 2 });
+
+      await lockoutService.recordFailure(
+        "Ada@Example.com",
+        account({ failedLoginCount: 1 }),
+        context
+      );
+
+      expect(db.loginAttempt.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: "ada@example.com",
+          success: false,
+        }),
+      });
+      expect(db.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ failedLoginCount: { increment: 1 } }),
+        })
+      );
+      expect(db.accountLockout.create).not.toHaveBeenCalled();
+    });
+
+    it("locks the account and emails an unlock link at the threshold", async () => {
+      db.user.update.mockResolvedValue({
+        failedLoginCount: config.auth.maxFailedLogins,
+      });
+
+      await lockoutService.recordFailure("ada@example.com", account(), context);
+
+      expect(db.accountLockout.updateMany).toHaveBeenCalledWith({
+        where: { userId: "user-1", unlockTokenHash: { not: null } },
+        data: { unlockTokenHash: null },
+      });
+      expect(db.accountLockout.create).toHaveBeenCalled();
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "auth.account_locked" }),
+        expect.anything()
+      );
+      expect(emailService.sendAccountLockedEmail).toHaveBeenCalledWith(
+        "ada@example.com",
+        expect.any(String),
+        expect.any(Date)
+      );
+    });
+
+    it("starts a fresh count after an expired lock", async () => {
+      db.user.update.mockResolvedValue({ failedLoginCount: 1 });
+
+      await lockoutService.recordFailure(
+        "ada@example.com",
+        account({
+          failedLoginCount: 5,
+          lockedUntil: new Date(Date.now() - 1_000),
+        }),
+        context
+      );
+
+      expect(db.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            failedLoginCount: 1,
+            lockedUntil: null,
+          }),
+        })
+      );
+    });
+
+    it("only records the attempt when there is no account", async () => {
+      await lockoutService.recordFailure("nobody@example.com", null, context);
+
+      expect(db.loginAttempt.create).toHaveBeenCalled();
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("assertIpAllowed", () => {
+    it("blocks an IP that reached the failure limit", async () => {
+      db.loginAttempt.count.mockResolvedValue(config.auth.maxFailedLoginsPerIp);
+
+      await expect(
+        lockoutService.assertIpAllowed("203.0.113.7")
+      ).rejects.toMatchObject({
+        statusCode: 429,
+        code: "RATE_LIMITED",
+      });
+    });
+
+    it("allows an IP below the limit", async () => {
+      db.loginAttempt.count.mockResolvedValue(
+        config.auth.maxFailedLoginsPerIp - 1
+      );
+
+      await expect(
+        lockoutService.assertIpAllowed("203.0.113.7")
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("unlockAccount", () => {
+    it("rejects a link for a lock that already ran out", async () => {
+      db.accountLockout.findUnique.mockResolvedValue({
+        id: "lockout-1",
+        userId: "user-1",
+        unlockedAt: null,
+        unlockTokenHash: "hash",
+        lockedUntil: new Date(Date.now() - 1_000),
+      });
+
+      await expect(lockoutService.unlockAccount("token")).rejects.toMatchObject(
+        {
+          statusCode: 400,
+        }
+      );
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it("clears the lock once and audits it", async () => {
+      db.accountLockout.findUnique.mockResolvedValue({
+        id: "lockout-1",
+        userId: "user-1",
+        unlockedAt: null,
+        unlockTokenHash: "hash",
+        lockedUntil: new Date(Date.now() + 60_000),
+      });
+      db.accountLockout.updateMany.mockResolvedValue({ count: 1 });
+
+      await lockoutService.unlockAccount("token");
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: "user-1" },
+        data: {
+          failedLoginCount: 0,
+          lastFailedLoginAt: null,
+          lockedUntil: null,
+        },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "auth.account_unlocked" }),
+        {}
+      );
+    });
+
+    it("rejects a link that was redeemed concurrently", async () => {
+      db.accountLockout.findUnique.mockResolvedValue({
+        id: "lockout-1",
+        userId: "user-1",
+        unlockedAt: null,
+        unlockTokenHash: "hash",
+        lockedUntil: new Date(Date.now() + 60_000),
+      });
+      db.accountLockout.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(lockoutService.unlockAccount("token")).rejects.toMatchObject(
+        {
+          statusCode: 400,
+        }
+      );
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { generateSecureToken, hashToken } from "../utils/tokens";
+import { auditService } from "./audit";
+import { emailService } from "./email";
+import { AuditContext, ServiceResponse, SessionContext } from "../types";
+
+// Login attempts older than this are pruned by the cleanup task
+const LOGIN_ATTEMPT_RETENTION_DAYS = 30;
+
+interface LockoutState {
+  id: string;
+  email: string;
+  failedLoginCount: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+export class LockoutService {
+  // Seconds a client must wait after the Nth consecutive failure (1, 2, 4, 8, ...)
+  private getDelaySeconds(failedLoginCount: number): number {
+    if (failedLoginCount < 2) {
+      return 0;
+    }
+
+    return Math.min(
+      2 ** (failedLoginCount - 2),
+      config.auth.maxLoginDelaySeconds
+    );
+  }
+
+  // Reject the attempt outright if this IP has been failing across accounts
+  async assertIpAllowed(ipAddress?: string): Promise<void> {
+    if (!ipAddress) {
+      return;
+    }
+
+    const windowStart = new Date(
+      Date.now() - config.auth.ipWindowMinutes * 60 * 1000
+    );
+
+    const recentFailures = await prisma.loginAttempt.count({
+      where: {
+        ipAddress,
+        success: false,
+        createdAt: { gte: windowStart },
+      },
+    });
+
+    if (recentFailures >= config.auth.maxFailedLoginsPerIp) {
+      logger.warn("Login blocked for IP", { ipAddress, recentFailures });
+      throw new AppError(
+        "Too many failed login attempts. Please try again later.",
+        429,
+        true,
+        undefined,
+        "RATE_LIMITED",
+        true
+      );
+    }
+  }
+
+  // Reject the attempt if the account is locked or still inside its backoff delay
+  assertAccountAllowed(user: LockoutState): void {
+    const now = Date.now();
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw new AppError(
+        "Account temporarily locked due to too many failed login attempts",
+        423,
+        true,
+        undefined,
+        "ACCOUNT_LOCKED"
+      );
+    }
+
+    const delaySeconds = this.getDelaySeconds(user.failedLoginCount);
+    if (
+      delaySeconds > 0 &&
+      user.lastFailedLoginAt &&
+      user.lastFailedLoginAt.getTime() + delaySeconds * 1000 > now
+    ) {
+      throw new AppError(
+        `Too many failed login attempts. Please wait ${delaySeconds} seconds and try again.`,
+        429,
+        true,
+        undefined,
+        "LOGIN_THROTTLED",
+        true
+      );
+    }
+  }
+
+  // Record a failed attempt; locks the account once the threshold is reached
+  async recordFailure(
+    email: string,
+    user: LockoutState | null,
+    context: SessionContext
+  ): Promise<void> {
+    await prisma.loginAttempt.create({
+      data: {
+        email: email.toLowerCase(),
+        userId: user?.id ?? null,
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent?.slice(0, 512) ?? null,
+        success: false,
+      },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    // An expired lock starts a fresh count
+    const lockExpired =
+      !!user.lockedUntil && user.lockedUntil.getTime() <= Date.now();
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        failedLoginCount: lockExpired ? 1 : { increment: 1 },
+        lastFailedLoginAt: new Date(),
+        ...(lockExpired && { lockedUntil: null }),
+      },
+      select: { failedLoginCount: true },
+    });
+
+    if (updated.failedLoginCount >= config.auth.maxFailedLogins) {
+      await this.lockAccount(user, updated.failedLoginCount, context);
+    }
+  }
+
+  // Record a successful login and clear the failure counter
+  async recordSuccess(
+    userId: string,
+    email: string,
+    context: SessionContext
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.loginAttempt.create({
+        data: {
+          email: email.toLowerCase(),
+          userId,
+          ipAddress: context.ipAddress ?? null,
+          userAgent: context.userAgent?.slice(0, 512) ?? null,
+          success: true,
+        },
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          failedLoginCount: 0,
+          lastFailedLoginAt: null,
+          lockedUntil: null,
+        },
+      }),
+    ]);
+  }
+
+  // Lock the account, record the event and email an unlock link
+  private async lockAccount(
+    user: LockoutState,
+    failedAttempts: number,
+    context: SessionContext
+  ): Promise<void> {
+    const lockedUntil = new Date(
+      Date.now() + config.auth.lockoutMinutes * 60 * 1000
+    );
+    const unlockToken = generateSecureToken();
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { lockedUntil },
+      }),
+      // Only the newest lockout email can unlock the account
+      prisma.accountLockout.updateMany({
+        where: { userId: user.id, unlockTokenHash: { not: null } },
+        data: { unlockTokenHash: null },
+      }),
+      prisma.accountLockout.create({
+        data: {
+          userId: user.id,
+          ipAddress: context.ipAddress ?? null,
+          failedAttempts,
+          lockedUntil,
+          unlockTokenHash: hashToken(unlockToken),
+        },
+      }),
+    ]);
+
+    logger.warn("Account locked after failed login attempts", {
+      userId: user.id,
+      failedAttempts,
+      ipAddress: context.ipAddress,
+      lockedUntil: lockedUntil.toISOString(),
+    });
+
+    await auditService.record(
+      {
+        action: "auth.account_locked",
+        targetUserId: user.id,
+        metadata: { failedAttempts, lockedUntil: lockedUntil.toISOString() },
+      },
+      { ipAddress: context.ipAddress, userAgent: context.userAgent }
+    );
+
+    await emailService.sendAccountLockedEmail(
+      user.email,
+      unlockToken,
+      lockedUntil
+    );
+  }
+
+  // Unlock an account using the token from the lockout email
+  async unlockAccount(
+    token: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const lockout = await prisma.accountLockout.findUnique({
+        where: { unlockTokenHash: hashToken(token) },
+      });
+      const now = new Date();
+
+      // A lock that has already run out has nothing left to unlock
+      if (!lockout || lockout.unlockedAt || lockout.lockedUntil <= now) {
+        throw new AppError("Invalid or expired unlock token", 400);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        // Conditional update so the same link can't be redeemed twice concurrently
+        const consumed = await tx.accountLockout.updateMany({
+          where: {
+            id: lockout.id,
+            unlockedAt: null,
+            unlockTokenHash: lockout.unlockTokenHash,
+          },
+          data: { unlockedAt: now, unlockTokenHash: null },
+        });
+
+        if (consumed.count === 0) {
+          throw new AppError("Invalid or expired unlock token", 400);
+        }
+
+        await tx.user.update({
+          where: { id: lockout.userId },
+          data: {
+            failedLoginCount: 0,
+            lastFailedLoginAt: null,
+            lockedUntil: null,
+          },
+        });
+      });
+
+      logger.info("Account unlocked via email", { userId: lockout.userId });
+
+      await auditService.record(
+        {
+          action: "auth.account_unlocked",
+          targetUserId: lockout.userId,
+          metadata: { lockoutId: lockout.id },
+        },
+        context
+      );
+      return { success: true };
+    } catch (error) {
+      logger.error("Account unlock failed", { error });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Account unlock failed", 500);
+    }
+  }
+
+  // Prune old login attempts
+  async cleanupOldAttempts(): Promise<void> {
+    try {
+      const cutoff = new Date(
+        Date.now() - LOGIN_ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+      );
+
+      const result = await prisma.loginAttempt.deleteMany({
+        where: { createdAt: { lt: cutoff } },
+      });
+
+      logger.info("Old login attempts cleaned up", { count: result.count });
+    } catch (error) {
+      logger.error("Login attempt cleanup failed", { error });
+    }
+  }
+}
+
+export const lockoutService = new LockoutService();
@@ -0,0 +1,134 @@
+import { prisma } from "../config/database";
+import { auditService } from "./audit";
+import { summaryService } from "./summary";
+import { webhookService } from "./webhook";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    summary: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    user: { update: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock("./audit", () => ({ auditService: { record: jest.fn() } }));
+jest.mock("./webhook", () => ({ webhookService: { dispatch: jest.fn() } }));
+
+const db = prisma as unknown as {
+  summary: {
+    findUnique: jest.Mock;
+    findFirst: jest.Mock;
+    updateMany: jest.Mock;
+    deleteMany: jest.Mock;
+  };
+  user: { update: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const summary = (status: string, creditsCharged = 2) => ({
+  id: "summary-1",
+  userId: "user-1",
+  videoId: "abc123",
+  status,
+  creditsCharged,
+});
+
+describe("SummaryService refunds", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((run: (tx: typeof prisma) => unknown) =>
+      run(prisma)
+    );
+  });
+
+  describe("failSummary", () => {
+    it("fails an in-flight summary and refunds what was charged", async () => {
+      db.summary.findUnique.mockResolvedValue(summary("PROCESSING"));
+      db.summary.updateMany.mockResolvedValue({ count: 1 });
+
+      await summaryService.failSummary("summary-1", new Error("boom"));
+
+      expect(db.summary.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "summary-1",
+          status: { in: ["PENDING", "PROCESSING"] },
+        },
+        data: { status: "FAILED" },
+      });
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: "user-1" },
+        data: { credits: { increment: 2 } },
+      });
+      expect(webhookService.dispatch).toHaveBeenCalledWith(
+        "user-1",
+        "summary.failed",
+        expect.objectContaining({ creditsRefunded: 2 })
+      );
+    });
+
+    it("refunds only once when failed twice concurrently", async () => {
+      db.summary.findUnique.mockResolvedValue(summary("PROCESSING"));
+      db.summary.updateMany.mockResolvedValue({ count: 0 });
+
+      await summaryService.failSummary("summary-1", new Error("boom"));
+
+      expect(db.user.update).not.toHaveBeenCalled();
+      expect(webhookService.dispatch).not.toHaveBeenCalled();
+    });
+
+    it("leaves finished summaries alone", async () => {
+      db.summary.findUnique.mockResolvedValue(summary("COMPLETED"));
+
+      await summaryService.failSummary("summary-1", new Error("boom"));
+
+      expect(db.summary.updateMany).not.toHaveBeenCalled();
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteSummary", () => {
+    it("refunds a summary deleted while still generating", async () => {
+      db.summary.findFirst.mockResolvedValue(summary("PENDING"));
+      db.summary.deleteMany.mockResolvedValue({ count: 1 });
+
+      await summaryService.deleteSummary("user-1", "summary-1");
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: "user-1" },
+        data: { credits: { increment: 2 } },
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "user.credits_added",
+          metadata: { credits: 2, reason: "summary_deleted_refund" },
+        }),
+        {},
+        prisma
+      );
+    });
+
+    it("does not refund a summary that already completed", async () => {
+      db.summary.findFirst.mockResolvedValue(summary("COMPLETED"));
+      db.summary.deleteMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      await summaryService.deleteSummary("user-1", "summary-1");
+
+      expect(db.summary.deleteMany).toHaveBeenCalledTimes(2);
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 when the summary is gone", async () => {
+      db.summary.findFirst.mockResolvedValue(null);
+
+      await expect(
+        summaryService.deleteSummary("user-1", "summary-1")
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -3,27 +3,54 @@ import { prisma } from "../config/database";
 import { config } from "../config";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
-import { openaiService } from "./openai";
+import { aiService } from "./ai";
+import { llmService } from "./llm";
+import { auditService } from "./audit";
+import { jobQueue } from "./jobQueue";
+import { summaryEvents } from "./summaryEvents";
+import { webhookService } from "./webhook";
+import { summaryCacheService } from "./summaryCache";
+import { videoService } from "./video";
+import { usageService } from "./usage";
+import { creditService } from "./credit";
+import { chapterService } from "./chapters";
+import { detectLanguage, languageName } from "../utils/language";
 import {
+  AuditContext,
+  LLMCallUsage,
+  OpenAISummaryResponse,
   SummaryData,
   GenerateSummaryRequest,
   ServiceResponse,
   PaginatedResponse,
   SummaryQueryParams,
   CreateSummaryData,
+  SummaryAudience,
+  SummaryLength,
+  SummaryOptions,
+  SummaryStyle,
   TranscriptSegment,
   VideoMetadata,
+  DEFAULT_SUMMARY_OPTIONS,
   MAX_SUMMARY_HISTORY,
 } from "../types";
 
+// Job type handled by the summary worker
+export const SUMMARY_JOB_TYPE = "summary.generate";
+
+// Join shared video details into every summary we return
+const summaryInclude = {
+  video: true,
+} satisfies Prisma.SummaryInclude;
+
 export class SummaryService {
-  // Generate AI summary from transcript
+  // Queue AI summary generation; the worker picks it up from the job table
   async generateSummary(
     userId: string,
     data: GenerateSummaryRequest
   ): Promise<ServiceResponse<SummaryData>> {
     try {
-      // Check if user has enough credits
+      // Check if user has enough credits (enforced again when charging)
       const user = await prisma.user.findUnique({
         where: { id: userId },
         select: { credits: true, plan: true },
@@ -33,17 +60,22 @@ export class SummaryService {
         throw new AppError("User not found", 404);
       }
 
-      if (user.credits < config.credits.perSummary) {
-        throw new AppError("Insufficient credits", 402);
-      }
+      const options = this.resolveOptions(data.options);
 
-      // Check if summary already exists for this video
+      // Reuse a finished summary, or one already in flight, for this video and options
       const existingSummary = await prisma.summary.findFirst({
         where: {
           userId,
           videoId: data.videoMetadata.videoId,
-          status: "COMPLETED",
+          status: { in: ["COMPLETED", "PENDING", "PROCESSING"] },
+          length: options.length,
+          style: options.style,
+          audience: options.audience,
+          focus: options.focus ?? null,
+          language: options.language,
         },
+        include: summaryInclude,
+        orderBy: { createdAt: "desc" },
       });
 
       if (existingSummary) {
@@ -53,82 +85,112 @@ export class SummaryService {
         };
       }
 
-      // Create pending summary record
-      const pendingSummary = await prisma.summary.create({
-        data: {
-          title: data.videoMetadata.title,
-          keyPoints: [],
-          fullSummary: "",
-          tags: [],
-          status: "PROCESSING",
-          videoId: data.videoMetadata.videoId,
-          videoTitle: data.videoMetadata.title,
-          channelName: data.videoMetadata.channelName,
-          videoDuration: data.videoMetadata.duration,
-          videoUrl: data.videoMetadata.url,
-          thumbnailUrl: data.videoMetadata.thumbnailUrl,
-          transcript: data.transcript as any,
-          transcriptText: this.formatTranscriptText(data.transcript),
-          userId,
-        },
-      });
+      // Another user may already have paid for this exact transcript
+      const cacheKey = summaryCacheService.buildKey(
+        summaryCacheService.getKeyParts(
+          data.videoMetadata.videoId,
+          data.transcript,
+          llmService.resolve(user.plan),
+          options
+        )
+      );
+      const cached = await summaryCacheService.lookup(cacheKey);
+      const cost =
+        cached && !config.summaryCache.chargeOnHit
+          ? 0
+          : config.credits.perSummary;
 
-      // Deduct credits immediately
-      await prisma.user.update({
-        where: { id: userId },
-        data: { credits: { decrement: config.credits.perSummary } },
-      });
+      if (user.credits < cost) {
+        throw new AppError("Insufficient credits", 402);
+      }
 
-      try {
-        // Generate summary using OpenAI
-        const aiResult = await openaiService.generateSummary(
-          data.transcript,
-          data.videoMetadata
+      const transcriptText = this.formatTranscriptText(data.transcript);
+
+      // Create the summary, charge credits and enqueue (or copy the cached result) in one transaction
+      const newSummary = await prisma.$transaction(async (tx) => {
+        await videoService.upsertMetadata(data.videoMetadata, tx);
+
+        const newSummary = await tx.summary.create({
+          data: {
+            title: data.videoMetadata.title,
+            keyPoints: cached?.keyPoints ?? [],
+            keyPointTimestamps: cached?.keyPointTimestamps ?? undefined,
+            fullSummary: cached?.fullSummary ?? "",
+            tags: cached?.tags ?? [],
+            status: cached ? "COMPLETED" : "PENDING",
+            videoId: data.videoMetadata.videoId,
+            videoTitle: data.videoMetadata.title,
+            channelName: data.videoMetadata.channelName,
+            videoDuration: data.videoMetadata.duration,
+            videoUrl: data.videoMetadata.url,
+            thumbnailUrl: data.videoMetadata.thumbnailUrl,
+            transcript: data.transcript as any,
+            transcriptText,
+            transcriptLanguage: detectLanguage(transcriptText),
+            length: options.length,
+            style: options.style,
+            audience: options.audience,
+            focus: options.focus,
+            language: options.language,
+            cacheKey,
+            fromCache: !!cached,
+            creditsCharged: cost,
+            userId,
+          },
+          include: summaryInclude,
+        });
+
+        await creditService.charge(
+          userId,
+          cost,
+          {
+            reason: cached ? "summary_cache_hit" : "summary",
+            summaryId: newSummary.id,
+          },
+          { actorId: userId },
+          tx
         );
 
-        if (!aiResult.success || !aiResult.data) {
-          throw new AppError(
-            aiResult.error || "AI summary generation failed",
-            500
+        if (cached) {
+          await summaryCacheService.recordHit(cacheKey, tx);
+        } else {
+          await jobQueue.enqueue(
+            SUMMARY_JOB_TYPE,
+            { summaryId: newSummary.id },
+            {},
+            tx
           );
         }
 
-        // Update summary with AI results
-        const completedSummary = await prisma.summary.update({
-          where: { id: pendingSummary.id },
-          data: {
-            keyPoints: aiResult.data.keyPoints,
-            fullSummary: aiResult.data.fullSummary,
-            tags: aiResult.data.tags,
-            status: "COMPLETED",
-          },
+        return newSummary;
+      });
+
+      const summaryData = this.formatSummary(newSummary);
+
+      if (cached) {
+        const { transcript, transcriptText, ...webhookSummary } = summaryData;
+        await webhookService.dispatch(userId, "summary.completed", {
+          summary: webhookSummary,
         });
 
-        logger.info("Summary generated successfully", {
+        logger.info("Summary served from cache", {
           userId,
-          summaryId: completedSummary.id,
+          summaryId: newSummary.id,
+          videoId: data.videoMetadata.videoId,
+          creditsCharged: cost,
+        });
+      } else {
+        logger.info("Summary generation queued", {
+          userId,
+          summaryId: newSummary.id,
           videoId: data.videoMetadata.videoId,
         });
-
-        return {
-          success: true,
-          data: this.formatSummary(completedSummary),
-        };
-      } catch (aiError) {
-        // Mark summary as failed and refund credits
-        await prisma.$transaction([
-          prisma.summary.update({
-            where: { id: pendingSummary.id },
-            data: { status: "FAILED" },
-          }),
-          prisma.user.update({
-            where: { id: userId },
-            data: { credits: { increment: config.credits.perSummary } },
-          }),
-        ]);
-
-        throw aiError;
       }
+
+      return {
+        success: true,
+        data: summaryData,
+      };
     } catch (error) {
       logger.error("Summary generation failed", {
         error: error instanceof Error ? error.message : "Unknown error",
@@ -141,10 +203,204 @@ export class SummaryService {
     }
   }
 
+  // Run the AI step for a queued summary (called by the job worker)
+  async processSummary(summaryId: string): Promise<void> {
+    const summary = await prisma.summary.findUnique({
+      where: { id: summaryId },
+      include: { user: { select: { plan: true } } },
+    });
+
+    // Deleted or already finished while queued
+    if (
+      !summary ||
+      (summary.status !== "PENDING" && summary.status !== "PROCESSING")
+    ) {
+      logger.info("Skipping summary job", {
+        summaryId,
+        status: summary?.status,
+      });
+      return;
+    }
+
+    await prisma.summary.update({
+      where: { id: summaryId },
+      data: { status: "PROCESSING" },
+    });
+    summaryEvents.publish({ type: "status", summaryId, status: "PROCESSING" });
+
+    // Resolve at run time so plan changes while queued are honoured
+    const target = llmService.resolve(summary.user.plan);
+    const options = this.formatOptions(summary);
+
+    // Record usage even when generation fails; those tokens were still paid for
+    const usage: LLMCallUsage[] = [];
+    let aiResult: ServiceResponse<OpenAISummaryResponse>;
+
+    try {
+      aiResult = await aiService.generateSummary(
+        (summary.transcript as unknown as TranscriptSegment[]) ?? [],
+        {
+          videoId: summary.videoId,
+          title: summary.videoTitle,
+          channelName: summary.channelName,
+          duration: summary.videoDuration ?? undefined,
+          url: summary.videoUrl,
+          thumbnailUrl: summary.thumbnailUrl ?? undefined,
+        },
+        options,
+        {
+          onChunkProgress: (chunk, totalChunks) =>
+            summaryEvents.publish({
+              type: "progress",
+              summaryId,
+              chunk,
+              totalChunks,
+            }),
+          onToken: (delta) =>
+            summaryEvents.publish({ type: "token", summaryId, delta }),
+          onTokenReset: () =>
+            summaryEvents.publish({ type: "reset", summaryId }),
+          onUsage: (call) => usage.push(call),
+        },
+        target
+      );
+    } finally {
+      await usageService.recordCalls(
+        summaryId,
+        summary.userId,
+        summary.user.plan,
+        usage
+      );
+    }
+
+    if (!aiResult.success || !aiResult.data) {
+      throw new AppError(aiResult.error || "AI summary generation failed", 500);
+    }
+
+    // Key on the settings actually used, which may differ from enqueue time
+    const cacheParts = summaryCacheService.getKeyParts(
+      summary.videoId,
+      (summary.transcript as unknown as TranscriptSegment[]) ?? [],
+      target,
+      options
+    );
+    await summaryCacheService.store(cacheParts, aiResult.data);
+
+    // Only complete rows that are still in flight (the user may have deleted it)
+    const completed = await prisma.summary.updateMany({
+      where: { id: summaryId, status: "PROCESSING" },
+      data: {
+        keyPoints: aiResult.data.keyPoints,
+        keyPointTimestamps: aiResult.data.keyPointTimestamps,
+        fullSummary: aiResult.data.fullSummary,
+        tags: aiResult.data.tags,
+        cacheKey: summaryCacheService.buildKey(cacheParts),
+        status: "COMPLETED",
+      },
+    });
+
+    logger.info("Summary generated successfully", {
+      userId: summary.userId,
+      summaryId,
+      videoId: summary.videoId,
+      completed: completed.count > 0,
+    });
+
+    if (completed.count > 0) {
+      const completedSummary = await prisma.summary.findUnique({
+        where: { id: summaryId },
+        include: summaryInclude,
+      });
+
+      if (completedSummary) {
+        const summaryData = this.formatSummary(completedSummary);
+
+        summaryEvents.publish({
+          type: "completed",
+          summaryId,
+          summary: summaryData,
+        });
+
+        // Transcripts can be large; receivers can fetch them via the API
+        const { transcript, transcriptText, ...webhookSummary } = summaryData;
+        await webhookService.dispatch(summary.userId, "summary.completed", {
+          summary: webhookSummary,
+        });
+      }
+    }
+  }
+
+  // Mark a summary failed for good and refund the credits it was charged
+  async failSummary(summaryId: string, error: unknown): Promise<void> {
+    const summary = await prisma.summary.findUnique({
+      where: { id: summaryId },
+      select: {
+        userId: true,
+        status: true,
+        videoId: true,
+        creditsCharged: true,
+      },
+    });
+
+    if (
+      !summary ||
+      (summary.status !== "PENDING" && summary.status !== "PROCESSING")
+    ) {
+      return;
+    }
+
+    const refund = summary.creditsCharged;
+
+    const failed = await prisma.$transaction(async (tx) => {
+      // Conditional update so a summary is only ever refunded once
+      const failed = await tx.summary.updateMany({
+        where: { id: summaryId, status: { in: ["PENDING", "PROCESSING"] } },
+        data: { status: "FAILED" },
+      });
+
+      if (failed.count > 0) {
+        await creditService.refund(
+          summary.userId,
+          refund,
+          { reason: "summary_failed_refund", summaryId },
+          { actorId: summary.userId },
+          tx
+        );
+      }
+
+      return failed.count > 0;
+    });
+
+    if (!failed) {
+      return;
+    }
+
+    summaryEvents.publish({
+      type: "failed",
+      summaryId,
+      error: "Summary generation failed",
+    });
+
+    await webhookService.dispatch(summary.userId, "summary.failed", {
+      summaryId,
+      videoId: summary.videoId,
+      creditsRefunded: refund,
+    });
+
+    logger.warn("Summary generation failed, credits refunded", {
+      userId: summary.userId,
+      summaryId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
   // Save/update summary
   async saveSummary(
     userId: string,
-    summaryData: Partial<CreateSummaryData> & { id?: string }
+    summaryData: Partial<CreateSummaryData> & {
+      id?: string;
+      videoMetadata?: VideoMetadata;
+    }
   ): Promise<ServiceResponse<SummaryData>> {
     try {
       let summary;
@@ -167,39 +423,64 @@ export class SummaryService {
           data: {
             title: summaryData.title ?? summary.title,
             keyPoints: summaryData.keyPoints ?? summary.keyPoints,
+            // Edited key points no longer line up with their timestamps
+            ...(summaryData.keyPoints && {
+              keyPointTimestamps: Prisma.DbNull,
+            }),
             fullSummary: summaryData.fullSummary ?? summary.fullSummary,
             tags: summaryData.tags ?? summary.tags,
           },
+          include: summaryInclude,
         });
       } else {
-        // Create new summary
-        if (
-          !summaryData.videoId ||
-          !summaryData.videoTitle ||
-          !summaryData.channelName
-        ) {
+        // Create new summary (accepts the nested videoMetadata from the API or flat fields)
+        const videoMetadata = summaryData.videoMetadata ?? (
+          summaryData.videoId &&
+          summaryData.videoTitle &&
+          summaryData.channelName
+            ? {
+              videoId: summaryData.videoId,
+              title: summaryData.videoTitle,
+              channelName: summaryData.channelName,
+              duration: summaryData.videoDuration,
+              url:
+                summaryData.videoUrl ||
+                `https://youtube.com/watch?v=${summaryData.videoId}`,
+              thumbnailUrl: summaryData.thumbnailUrl,
+            }
+            : undefined
+        );
+
+        if (!videoMetadata) {
           throw new AppError("Missing required video metadata", 400);
         }
 
-        summary = await prisma.summary.create({
-          data: {
-            title: summaryData.title || summaryData.videoTitle,
-            keyPoints: summaryData.keyPoints || [],
-            fullSummary: summaryData.fullSummary || "",
-            tags: summaryData.tags || [],
-            status: "COMPLETED",
-            videoId: summaryData.videoId,
-            videoTitle: summaryData.videoTitle,
-            channelName: summaryData.channelName,
-            videoDuration: summaryData.videoDuration,
-            videoUrl:
-              summaryData.videoUrl ||
-              `https://youtube.com/watch?v=${summaryData.videoId}`,
-            thumbnailUrl: summaryData.thumbnailUrl,
-            transcript: summaryData.transcript,
-            transcriptText: summaryData.transcriptText,
-            userId,
-          },
+        summary = await prisma.$transaction(async (tx) => {
+          await videoService.upsertMetadata(videoMetadata, tx);
+
+          return tx.summary.create({
+            data: {
+              title: summaryData.title || videoMetadata.title,
+              keyPoints: summaryData.keyPoints || [],
+              fullSummary: summaryData.fullSummary || "",
+              tags: summaryData.tags || [],
+              status: "COMPLETED",
+              videoId: videoMetadata.videoId,
+              videoTitle: videoMetadata.title,
+              channelName: videoMetadata.channelName,
+              videoDuration: videoMetadata.duration,
+              videoUrl: videoMetadata.url,
+              thumbnailUrl: videoMetadata.thumbnailUrl,
+              transcript: summaryData.transcript,
+              transcriptText: summaryData.transcriptText,
+              transcriptLanguage: detectLanguage(
+                summaryData.transcriptText ??
+                  this.formatTranscriptText(summaryData.transcript ?? [])
+              ),
+              userId,
+            },
+            include: summaryInclude,
+          });
         });
       }
 
@@ -271,6 +552,7 @@ export class SummaryService {
       // Get summaries
       const summaries = await prisma.summary.findMany({
         where,
+        include: summaryInclude,
         orderBy: { [sortBy]: sortOrder },
         skip: (page - 1) * limit,
         take: limit,
@@ -312,6 +594,7 @@ export class SummaryService {
           id: summaryId,
           userId,
         },
+        include: summaryInclude,
       });
 
       if (!summary) {
@@ -356,7 +639,12 @@ export class SummaryService {
 
       const updatedSummary = await prisma.summary.update({
         where: { id: summaryId },
-        data: updates,
+        data: {
+          ...updates,
+          // Edited key points no longer line up with their timestamps
+          ...(updates.keyPoints && { keyPointTimestamps: Prisma.DbNull }),
+        },
+        include: summaryInclude,
       });
 
       logger.info("Summary updated successfully", {
@@ -381,10 +669,168 @@ export class SummaryService {
     }
   }
 
+  // Create a variant of a completed summary in another language from its text, not its transcript
+  async translateSummary(
+    userId: string,
+    summaryId: string,
+    language: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<SummaryData>> {
+    try {
+      const cost = config.credits.perTranslation;
+
+      const [user, source] = await Promise.all([
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { plan: true },
+        }),
+        prisma.summary.findFirst({ where: { id: summaryId, userId } }),
+      ]);
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (!source) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      if (source.status !== "COMPLETED") {
+        throw new AppError("Summary is not completed yet", 409);
+      }
+
+      if (source.language === language) {
+        throw new AppError(
+          `Summary is already in ${languageName(language)}`,
+          400
+        );
+      }
+
+      // Reuse a summary of this video already written in that language with the same options
+      const existing = await prisma.summary.findFirst({
+        where: {
+          userId,
+          videoId: source.videoId,
+          status: "COMPLETED",
+          length: source.length,
+          style: source.style,
+          audience: source.audience,
+          focus: source.focus,
+          language,
+        },
+        include: summaryInclude,
+        orderBy: { createdAt: "desc" },
+      });
+
+      if (existing) {
+        return { success: true, data: this.formatSummary(existing) };
+      }
+
+      // Reserve the credits before paying for the translation, so concurrent requests
+      // can't all pass a balance check and then overdraw; they're refunded on failure
+      await creditService.charge(
+        userId,
+        cost,
+        { reason: "translation", summaryId },
+        context
+      );
+
+      // Usage is recorded on the new variant, or on the source if translation fails
+      const usage: LLMCallUsage[] = [];
+      let translatedId: string | undefined;
+
+      try {
+        const aiResult = await aiService.translateSummary(
+          {
+            keyPoints: source.keyPoints,
+            fullSummary: source.fullSummary,
+            tags: source.tags,
+          },
+          language,
+          { onUsage: (call) => usage.push(call) },
+          llmService.resolve(user.plan)
+        );
+
+        if (!aiResult.success || !aiResult.data) {
+          throw new AppError(aiResult.error || "Summary translation failed", 500);
+        }
+        const translation = aiResult.data;
+
+        const translated = await prisma.summary.create({
+          data: {
+            title: source.title,
+            keyPoints: translation.keyPoints,
+            // Key points keep their order, so their timestamps still apply
+            keyPointTimestamps: source.keyPointTimestamps ?? undefined,
+            fullSummary: translation.fullSummary,
+            tags: translation.tags,
+            status: "COMPLETED",
+            videoId: source.videoId,
+            videoTitle: source.videoTitle,
+            channelName: source.channelName,
+            videoDuration: source.videoDuration,
+            videoUrl: source.videoUrl,
+            thumbnailUrl: source.thumbnailUrl,
+            transcript: source.transcript ?? undefined,
+            transcriptText: source.transcriptText,
+            transcriptLanguage: source.transcriptLanguage,
+            length: source.length,
+            style: source.style,
+            audience: source.audience,
+            focus: source.focus,
+            language,
+            translatedFromId: source.id,
+            creditsCharged: cost,
+            userId,
+          },
+          include: summaryInclude,
+        });
+        translatedId = translated.id;
+
+        logger.info("Summary translated", {
+          userId,
+          summaryId,
+          translatedId,
+          from: source.language,
+          to: language,
+          creditsCharged: cost,
+        });
+
+        return { success: true, data: this.formatSummary(translated) };
+      } catch (error) {
+        await creditService.refund(
+          userId,
+          cost,
+          { reason: "translation_failed_refund", summaryId },
+          context
+        );
+        throw error;
+      } finally {
+        await usageService.recordCalls(
+          translatedId ?? summaryId,
+          userId,
+          user.plan,
+          usage
+        );
+      }
+    } catch (error) {
+      logger.error("Summary translation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        summaryId,
+        language,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to translate summary", 500);
+    }
+  }
+
   // Delete summary
   async deleteSummary(
     userId: string,
-    summaryId: string
+    summaryId: string,
+    context: AuditContext = {}
   ): Promise<ServiceResponse<void>> {
     try {
       const summary = await prisma.summary.findFirst({
@@ -398,16 +844,64 @@ export class SummaryService {
         throw new AppError("Summary not found", 404);
       }
 
-      await prisma.summary.delete({
-        where: { id: summaryId },
+      // A summary deleted before it finished is never failed by the worker, so its
+      // credits are refunded here. The status is checked by the delete itself, so a
+      // summary that completes concurrently is not refunded.
+      const refund = await prisma.$transaction(async (tx) => {
+        const inFlight = await tx.summary.deleteMany({
+          where: {
+            id: summaryId,
+            userId,
+            status: { in: ["PENDING", "PROCESSING"] },
+          },
+        });
+
+        if (inFlight.count === 0) {
+          const deleted = await tx.summary.deleteMany({
+            where: { id: summaryId, userId },
+          });
+
+          if (deleted.count === 0) {
+            throw new AppError("Summary not found", 404);
+          }
+
+          return 0;
+        }
+
+        await creditService.refund(
+          userId,
+          summary.creditsCharged,
+          { reason: "summary_deleted_refund", summaryId },
+          context,
+          tx
+        );
+
+        return summary.creditsCharged;
       });
 
       logger.info("Summary deleted successfully", {
         userId,
         summaryId,
         videoId: summary.videoId,
+        creditsRefunded: refund,
       });
 
+      await webhookService.dispatch(userId, "summary.deleted", {
+        summaryId,
+        videoId: summary.videoId,
+      });
+
+      await auditService.record(
+        {
+          action: "summary.deleted",
+          targetUserId: userId,
+          targetType: "summary",
+          targetId: summaryId,
+          metadata: { videoId: summary.videoId },
+        },
+        context
+      );
+
       return { success: true };
     } catch (error) {
       logger.error("Summary deletion failed", {
@@ -433,6 +927,7 @@ export class SummaryService {
           videoId,
           status: "COMPLETED",
         },
+        include: summaryInclude,
         orderBy: { createdAt: "desc" },
       });
 
@@ -503,6 +998,7 @@ export class SummaryService {
       id: summary.id,
       title: summary.title,
       keyPoints: summary.keyPoints,
+      keyPointTimestamps: this.formatKeyPointTimestamps(summary),
       fullSummary: summary.fullSummary,
       tags: summary.tags,
       status: summary.status,
@@ -513,15 +1009,63 @@ export class SummaryService {
         duration: summary.videoDuration,
         url: summary.videoUrl,
         thumbnailUrl: summary.thumbnailUrl,
+        description: summary.video?.description ?? undefined,
+        publishedAt: summary.video?.publishedAt?.toISOString(),
+        viewCount: summary.video?.viewCount ?? undefined,
+        likeCount: summary.video?.likeCount ?? undefined,
       },
       transcript: summary.transcript as TranscriptSegment[],
       transcriptText: summary.transcriptText,
       createdAt: summary.createdAt.toISOString(),
       updatedAt: summary.updatedAt.toISOString(),
       saved: true,
+      fromCache: summary.fromCache,
+      chapters: chapterService.formatChapterList(summary.chapters),
+      chaptersStatus: summary.chaptersStatus ?? null,
+      options: this.formatOptions(summary),
+      transcriptLanguage: summary.transcriptLanguage ?? null,
+      translatedFromId: summary.translatedFromId ?? null,
     };
   }
 
+  // Fill in defaults and tidy the free-text focus
+  private resolveOptions(options: Partial<SummaryOptions> = {}): SummaryOptions {
+    const focus = options.focus?.trim().replace(/\s+/g, " ");
+
+    return {
+      length: options.length ?? DEFAULT_SUMMARY_OPTIONS.length,
+      style: options.style ?? DEFAULT_SUMMARY_OPTIONS.style,
+      audience: options.audience ?? DEFAULT_SUMMARY_OPTIONS.audience,
+      language: options.language ?? DEFAULT_SUMMARY_OPTIONS.language,
+      ...(focus && { focus }),
+    };
+  }
+
+  // Options stored on a summary row
+  private formatOptions(summary: any): SummaryOptions {
+    return {
+      length: summary.length as SummaryLength,
+      style: summary.style as SummaryStyle,
+      audience: summary.audience as SummaryAudience,
+      language: summary.language,
+      ...(summary.focus && { focus: summary.focus }),
+    };
+  }
+
+  // Timestamps aligned with keyPoints; nulls when missing or out of step
+  private formatKeyPointTimestamps(summary: any): (number | null)[] {
+    const timestamps = summary.keyPointTimestamps;
+
+    if (
+      Array.isArray(timestamps) &&
+      timestamps.length === summary.keyPoints.length
+    ) {
+      return timestamps.map((value) => (typeof value === "number" ? value : null));
+    }
+
+    return summary.keyPoints.map(() => null);
+  }
+
   // Format transcript segments to plain text
   private formatTranscriptText(transcript: TranscriptSegment[]): string {
     return transcript.map((segment) => segment.text).join(" ");
@@ -0,0 +1,71 @@
+import { summaryCacheService } from "./summaryCache";
+import { SUMMARY_PROMPT_VERSION } from "./ai";
+import {
+  DEFAULT_SUMMARY_OPTIONS,
+  LLMTarget,
+  SummaryOptions,
+  TranscriptSegment,
+} from "../types";
+
+// Only pure helpers are tested here; nothing should reach the database
+jest.mock("../config/database", () => ({ prisma: {} }));
+
+const transcript: TranscriptSegment[] = [
+  { timestamp: "0:00", text: "Hello and welcome" },
+  { timestamp: "0:05", text: "Today we talk about caching" },
+];
+const target: LLMTarget = { provider: "fake", model: "fake-model" };
+
+const keyFor = (
+  overrides: {
+    videoId?: string;
+    transcript?: TranscriptSegment[];
+    target?: LLMTarget;
+    options?: SummaryOptions;
+  } = {}
+) =>
+  summaryCacheService.buildKey(
+    summaryCacheService.getKeyParts(
+      overrides.videoId ?? "abc123",
+      overrides.transcript ?? transcript,
+      overrides.target ?? target,
+      overrides.options ?? DEFAULT_SUMMARY_OPTIONS
+    )
+  );
+
+describe("summary cache key", () => {
+  it("is a stable sha256 hex digest", () => {
+    expect(keyFor()).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyFor()).toBe(keyFor());
+  });
+
+  it("records the model and prompt version", () => {
+    const parts = summaryCacheService.getKeyParts(
+      "abc123",
+      transcript,
+      target,
+      DEFAULT_SUMMARY_OPTIONS
+    );
+
+    expect(parts.model).toBe("fake:fake-model");
+    expect(parts.promptVersion).toBe(SUMMARY_PROMPT_VERSION);
+  });
+
+  it("changes with anything that changes the AI output", () => {
+    const key = keyFor();
+
+    expect(keyFor({ videoId: "xyz789" })).not.toBe(key);
+    expect(
+      keyFor({
+        transcript: [...transcript, { timestamp: "0:09", text: "Goodbye" }],
+      })
+    ).not.toBe(key);
+    expect(keyFor({ target: { provider: "fake", model: "other" } })).not.toBe(key);
+    expect(
+      keyFor({ options: { ...DEFAULT_SUMMARY_OPTIONS, length: "brief" } })
+    ).not.toBe(key);
+    expect(
+      keyFor({ options: { ...DEFAULT_SUMMARY_OPTIONS, language: "es" } })
+    ).not.toBe(key);
+  });
+});
@@ -0,0 +1,172 @@
+import crypto from "crypto";
+import { Prisma, SummaryCache } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { auditService } from "./audit";
+import { SUMMARY_PROMPT_VERSION } from "./ai";
+import {
+  AuditContext,
+  LLMTarget,
+  OpenAISummaryResponse,
+  ServiceResponse,
+  SummaryOptions,
+  TranscriptSegment,
+} from "../types";
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+// Everything that determines the AI output for a video
+export interface SummaryCacheKeyParts {
+  videoId: string;
+  transcriptHash: string;
+  model: string;
+  promptVersion: string;
+  options: string;
+}
+
+export class SummaryCacheService {
+  // Build the key parts for a transcript under the given generation settings
+  getKeyParts(
+    videoId: string,
+    transcript: TranscriptSegment[],
+    target: LLMTarget,
+    options: SummaryOptions
+  ): SummaryCacheKeyParts {
+    return {
+      videoId,
+      transcriptHash: this.hashTranscript(transcript),
+      model: `${target.provider}:${target.model}`,
+      promptVersion: SUMMARY_PROMPT_VERSION,
+      options: this.serializeOptions(options),
+    };
+  }
+
+  buildKey(parts: SummaryCacheKeyParts): string {
+    return crypto
+      .createHash("sha256")
+      .update(
+        [
+          parts.videoId,
+          parts.transcriptHash,
+          parts.model,
+          parts.promptVersion,
+          parts.options,
+        ].join("\n")
+      )
+      .digest("hex");
+  }
+
+  // Find a cached result; null when caching is off or nothing matches
+  async lookup(cacheKey: string): Promise<SummaryCache | null> {
+    if (!config.summaryCache.enabled) {
+      return null;
+    }
+
+    return prisma.summaryCache.findUnique({ where: { cacheKey } });
+  }
+
+  // Count a reuse of a cached entry. The summary already holds a copy of the result,
+  // so an entry invalidated since the lookup simply goes uncounted.
+  async recordHit(
+    cacheKey: string,
+    client: PrismaClientLike = prisma
+  ): Promise<void> {
+    await client.summaryCache.updateMany({
+      where: { cacheKey },
+      data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+    });
+  }
+
+  // Save a fresh AI result; failures are logged, not thrown, since the summary itself succeeded
+  async store(
+    parts: SummaryCacheKeyParts,
+    result: OpenAISummaryResponse
+  ): Promise<void> {
+    if (!config.summaryCache.enabled) {
+      return;
+    }
+
+    const cacheKey = this.buildKey(parts);
+
+    try {
+      await prisma.summaryCache.upsert({
+        where: { cacheKey },
+        create: {
+          cacheKey,
+          ...parts,
+          keyPoints: result.keyPoints,
+          keyPointTimestamps: result.keyPointTimestamps,
+          fullSummary: result.fullSummary,
+          tags: result.tags,
+        },
+        update: {
+          keyPoints: result.keyPoints,
+          keyPointTimestamps: result.keyPointTimestamps,
+          fullSummary: result.fullSummary,
+          tags: result.tags,
+        },
+      });
+    } catch (error) {
+      logger.warn("Summary cache write failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        videoId: parts.videoId,
+      });
+    }
+  }
+
+  // Drop every cached result for a video (admin)
+  async invalidate(
+    videoId: string,
+    context: AuditContext
+  ): Promise<ServiceResponse<{ deleted: number }>> {
+    try {
+      const result = await prisma.summaryCache.deleteMany({
+        where: { videoId },
+      });
+
+      logger.info("Summary cache invalidated", {
+        actorId: context.actorId,
+        videoId,
+        deleted: result.count,
+      });
+
+      await auditService.record(
+        {
+          action: "summary.cache_invalidated",
+          targetType: "video",
+          targetId: videoId,
+          metadata: { deleted: result.count },
+        },
+        context
+      );
+
+      return { success: true, data: { deleted: result.count } };
+    } catch (error) {
+      logger.error("Summary cache invalidation failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        videoId,
+      });
+      throw new AppError("Failed to invalidate summary cache", 500);
+    }
+  }
+
+  // Focus wording that differs only in case or spacing shares a key; focus goes last as it's free text
+  private serializeOptions(options: SummaryOptions): string {
+    const focus = (options.focus ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+
+    return `length=${options.length};style=${options.style};audience=${options.audience};language=${options.language};focus=${focus}`;
+  }
+
+  // Whitespace differences between transcript fetches shouldn't miss the cache
+  private hashTranscript(transcript: TranscriptSegment[]): string {
+    const normalized = transcript
+      .map((segment) => segment.text.trim().replace(/\s+/g, " "))
+      .join("\n");
+
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+  }
+}
+
+export const summaryCacheService = new SummaryCacheService();
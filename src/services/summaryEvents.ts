@@ -0,0 +1,33 @@
+import { EventEmitter } from "events";
+import { SummaryEvent } from "../types";
+
+// In-process pub/sub for summary progress, consumed by the SSE endpoint
+export class SummaryEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream; there is no meaningful upper bound
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: SummaryEvent): void {
+    this.emitter.emit(event.summaryId, event);
+  }
+
+  // Listen for events on one summary; returns the unsubscribe function
+  subscribe(
+    summaryId: string,
+    listener: (event: SummaryEvent) => void
+  ): () => void {
+    this.emitter.on(summaryId, listener);
+    return () => {
+      this.emitter.off(summaryId, listener);
+    };
+  }
+
+  hasSubscribers(summaryId: string): boolean {
+    return this.emitter.listenerCount(summaryId) > 0;
+  }
+}
+
+export const summaryEvents = new SummaryEventBus();
@@ -0,0 +1,255 @@
+import { Prisma, UserPlan } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import {
+  LLMCallUsage,
+  LLMProviderName,
+  ServiceResponse,
+  SummaryUsage,
+  UsageByModel,
+  UsageByPlan,
+  UsageQueryParams,
+  UsageStats,
+  UsageTotals,
+} from "../types";
+
+export class UsageService {
+  // Store per-call usage and add it to the summary's totals; never throws so accounting can't fail a summary
+  async recordCalls(
+    summaryId: string,
+    userId: string,
+    plan: UserPlan,
+    calls: LLMCallUsage[]
+  ): Promise<void> {
+    if (calls.length === 0) {
+      return;
+    }
+
+    try {
+      const totals = calls.reduce(
+        (sum, call) => ({
+          promptTokens: sum.promptTokens + call.promptTokens,
+          completionTokens: sum.completionTokens + call.completionTokens,
+          costUsd: sum.costUsd + call.costUsd,
+        }),
+        { promptTokens: 0, completionTokens: 0, costUsd: 0 }
+      );
+
+      await prisma.$transaction([
+        prisma.llmUsage.createMany({
+          data: calls.map((call) => ({
+            summaryId,
+            userId,
+            plan,
+            provider: call.provider,
+            model: call.model,
+            purpose: call.purpose,
+            chunkIndex: call.chunkIndex ?? null,
+            promptTokens: call.promptTokens,
+            completionTokens: call.completionTokens,
+            costUsd: call.costUsd,
+          })),
+        }),
+        // updateMany so a summary deleted mid-generation doesn't throw
+        prisma.summary.updateMany({
+          where: { id: summaryId },
+          data: {
+            model: `${calls[0].provider}:${calls[0].model}`,
+            promptTokens: { increment: totals.promptTokens },
+            completionTokens: { increment: totals.completionTokens },
+            costUsd: { increment: totals.costUsd },
+          },
+        }),
+      ]);
+    } catch (error) {
+      logger.error("LLM usage write failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        summaryId,
+        calls: calls.length,
+      });
+    }
+  }
+
+  // Usage for one user
+  async getUserUsage(
+    userId: string,
+    params: UsageQueryParams = {}
+  ): Promise<ServiceResponse<UsageStats>> {
+    try {
+      const where = this.buildWhere(params, userId);
+      const [totals, byModel] = await Promise.all([
+        this.getTotals(where),
+        this.getByModel(where),
+      ]);
+
+      return { success: true, data: { totals, byModel } };
+    } catch (error) {
+      logger.error("Get user usage failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw new AppError("Failed to get usage", 500);
+    }
+  }
+
+  // Usage across all users, broken down by model and plan
+  async getGlobalUsage(
+    params: UsageQueryParams = {}
+  ): Promise<ServiceResponse<UsageStats>> {
+    try {
+      const where = this.buildWhere(params);
+      const [totals, byModel, byPlan] = await Promise.all([
+        this.getTotals(where),
+        this.getByModel(where),
+        this.getByPlan(where),
+      ]);
+
+      return { success: true, data: { totals, byModel, byPlan } };
+    } catch (error) {
+      logger.error("Get global usage failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw new AppError("Failed to get usage", 500);
+    }
+  }
+
+  // Per-call breakdown for one summary
+  async getSummaryUsage(
+    summaryId: string
+  ): Promise<ServiceResponse<SummaryUsage>> {
+    try {
+      const [summary, calls] = await Promise.all([
+        prisma.summary.findUnique({
+          where: { id: summaryId },
+          select: {
+            model: true,
+            promptTokens: true,
+            completionTokens: true,
+            costUsd: true,
+          },
+        }),
+        prisma.llmUsage.findMany({
+          where: { summaryId },
+          orderBy: { createdAt: "asc" },
+        }),
+      ]);
+
+      if (!summary && calls.length === 0) {
+        throw new AppError("Summary not found", 404);
+      }
+
+      const usage: SummaryUsage = {
+        summaryId,
+        model: summary?.model ?? null,
+        promptTokens: summary
+          ? summary.promptTokens
+          : calls.reduce((sum, call) => sum + call.promptTokens, 0),
+        completionTokens: summary
+          ? summary.completionTokens
+          : calls.reduce((sum, call) => sum + call.completionTokens, 0),
+        costUsd: summary
+          ? summary.costUsd.toNumber()
+          : calls.reduce((sum, call) => sum + call.costUsd.toNumber(), 0),
+        calls: calls.map((call) => ({
+          provider: call.provider as LLMProviderName,
+          model: call.model,
+          purpose: call.purpose as LLMCallUsage["purpose"],
+          chunkIndex: call.chunkIndex ?? undefined,
+          promptTokens: call.promptTokens,
+          completionTokens: call.completionTokens,
+          costUsd: call.costUsd.toNumber(),
+          createdAt: call.createdAt.toISOString(),
+        })),
+      };
+
+      return { success: true, data: usage };
+    } catch (error) {
+      logger.error("Get summary usage failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        summaryId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get summary usage", 500);
+    }
+  }
+
+  private buildWhere(params: UsageQueryParams, userId?: string): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (userId) {
+      conditions.push(Prisma.sql`"userId" = ${userId}`);
+    }
+    if (params.startDate) {
+      conditions.push(Prisma.sql`"createdAt" >= ${new Date(params.startDate)}`);
+    }
+    if (params.endDate) {
+      conditions.push(Prisma.sql`"createdAt" <= ${new Date(params.endDate)}`);
+    }
+
+    return conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+      : Prisma.empty;
+  }
+
+  private async getTotals(where: Prisma.Sql): Promise<UsageTotals> {
+    const [row] = await prisma.$queryRaw<
+      Omit<UsageTotals, "totalTokens">[]
+    >`
+      SELECT
+        COUNT(*)::int AS "calls",
+        COUNT(DISTINCT "summaryId")::int AS "summaries",
+        COALESCE(SUM("promptTokens"), 0)::float8 AS "promptTokens",
+        COALESCE(SUM("completionTokens"), 0)::float8 AS "completionTokens",
+        COALESCE(SUM("costUsd"), 0)::float8 AS "costUsd"
+      FROM "llm_usage"
+      ${where}
+    `;
+
+    return {
+      ...row,
+      totalTokens: row.promptTokens + row.completionTokens,
+    };
+  }
+
+  private getByModel(where: Prisma.Sql): Promise<UsageByModel[]> {
+    return prisma.$queryRaw<UsageByModel[]>`
+      SELECT
+        "provider",
+        "model",
+        COUNT(*)::int AS "calls",
+        SUM("promptTokens")::float8 AS "promptTokens",
+        SUM("completionTokens")::float8 AS "completionTokens",
+        SUM("costUsd")::float8 AS "costUsd"
+      FROM "llm_usage"
+      ${where}
+      GROUP BY "provider", "model"
+      ORDER BY "costUsd" DESC
+    `;
+  }
+
+  private async getByPlan(where: Prisma.Sql): Promise<UsageByPlan[]> {
+    const rows = await prisma.$queryRaw<Omit<UsageByPlan, "averageCostPerSummary">[]>`
+      SELECT
+        "plan",
+        COUNT(DISTINCT "summaryId")::int AS "summaries",
+        COUNT(DISTINCT "userId")::int AS "users",
+        SUM("costUsd")::float8 AS "costUsd"
+      FROM "llm_usage"
+      ${where}
+      GROUP BY "plan"
+      ORDER BY "plan"
+    `;
+
+    return rows.map((row) => ({
+      ...row,
+      averageCostPerSummary:
+        row.summaries > 0
+          ? Math.round((row.costUsd / row.summaries) * 1_000_000) / 1_000_000
+          : 0,
+    }));
+  }
+}
+
+export const usageService = new UsageService();
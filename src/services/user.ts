@@ -3,7 +3,10 @@ import { prisma } from "../config/database";
 import { config } from "../config";
 import { logger } from "../config/logger";
 import { AppError } from "../middleware/errorHandler";
+import { emailService } from "./email";
+import { auditService } from "./audit";
 import {
+  AuditContext,
   UserProfile,
   UserStats,
   ServiceResponse,
@@ -183,7 +186,8 @@ export class UserService {
   // Add credits to user account
   async addCredits(
     userId: string,
-    credits: number
+    credits: number,
+    context: AuditContext = {}
   ): Promise<ServiceResponse<{ newBalance: number }>> {
     try {
       if (credits <= 0) {
@@ -204,6 +208,15 @@ export class UserService {
         newBalance: updatedUser.credits,
       });
 
+      await auditService.record(
+        {
+          action: "user.credits_added",
+          targetUserId: userId,
+          metadata: { credits, newBalance: updatedUser.credits },
+        },
+        context
+      );
+
       return {
         success: true,
         data: { newBalance: updatedUser.credits },
@@ -223,7 +236,8 @@ export class UserService {
   // Deduct credits from user account
   async deductCredits(
     userId: string,
-    credits: number
+    credits: number,
+    context: AuditContext = {}
   ): Promise<ServiceResponse<{ newBalance: number }>> {
     try {
       if (credits <= 0) {
@@ -258,6 +272,15 @@ export class UserService {
         newBalance: updatedUser.credits,
       });
 
+      await auditService.record(
+        {
+          action: "user.credits_deducted",
+          targetUserId: userId,
+          metadata: { credits, newBalance: updatedUser.credits },
+        },
+        context
+      );
+
       return {
         success: true,
         data: { newBalance: updatedUser.credits },
@@ -274,15 +297,85 @@ export class UserService {
     }
   }
 
+  // Adjust credits up or down by an admin; balance never drops below zero
+  async adjustCredits(
+    userId: string,
+    credits: number,
+    reason: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<{ newBalance: number; applied: number }>> {
+    try {
+      if (credits === 0) {
+        throw new AppError("Credit adjustment must not be zero", 400);
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { credits: true },
+      });
+
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      const applied = Math.max(credits, -user.credits);
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: {
+          credits: { increment: applied },
+        },
+        select: { credits: true },
+      });
+
+      logger.info("Credits adjusted for user", {
+        userId,
+        requested: credits,
+        applied,
+        reason,
+        newBalance: updatedUser.credits,
+      });
+
+      await auditService.record(
+        {
+          action: "user.credits_adjusted",
+          targetUserId: userId,
+          metadata: {
+            requested: credits,
+            applied,
+            reason,
+            newBalance: updatedUser.credits,
+          },
+        },
+        context
+      );
+
+      return {
+        success: true,
+        data: { newBalance: updatedUser.credits, applied },
+      };
+    } catch (error) {
+      logger.error("Adjust credits failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        credits,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to adjust credits", 500);
+    }
+  }
+
   // Upgrade user plan
   async upgradePlan(
     userId: string,
-    newPlan: UserPlan
+    newPlan: UserPlan,
+    context: AuditContext = {}
   ): Promise<ServiceResponse<UserProfile>> {
     try {
       const user = await prisma.user.findUnique({
         where: { id: userId },
-        select: { plan: true },
+        select: { plan: true, email: true },
       });
 
       if (!user) {
@@ -338,6 +431,17 @@ export class UserService {
         creditsAdded: creditsToAdd,
       });
 
+      await auditService.record(
+        {
+          action: "user.plan_changed",
+          targetUserId: userId,
+          metadata: { oldPlan: user.plan, newPlan, creditsAdded: creditsToAdd },
+        },
+        context
+      );
+
+      await emailService.sendPlanChangeEmail(user.email, user.plan, newPlan);
+
       return { success: true, data: profile };
     } catch (error) {
       logger.error("Plan upgrade failed", {
@@ -387,7 +491,10 @@ export class UserService {
   }
 
   // Delete user account
-  async deleteUser(userId: string): Promise<ServiceResponse<void>> {
+  async deleteUser(
+    userId: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
     try {
       // Check if user exists
       const user = await prisma.user.findUnique({
@@ -408,6 +515,15 @@ export class UserService {
         email: user.email,
       });
 
+      await auditService.record(
+        {
+          action: "user.deleted",
+          targetUserId: userId,
+          metadata: { email: user.email },
+        },
+        context
+      );
+
       return { success: true };
     } catch (error) {
       logger.error("Delete user failed", {
@@ -466,8 +582,11 @@ export class UserService {
     }
   }
 
-  // Verify user email
-  async verifyEmail(userId: string): Promise<ServiceResponse<void>> {
+  // Mark user email as verified without a token (admin function)
+  async verifyEmail(
+    userId: string,
+    context: AuditContext = {}
+  ): Promise<ServiceResponse<void>> {
     try {
       await prisma.user.update({
         where: { id: userId },
@@ -476,6 +595,11 @@ export class UserService {
 
       logger.info("User email verified", { userId });
 
+      await auditService.record(
+        { action: "user.email_verified", targetUserId: userId },
+        context
+      );
+
       return { success: true };
     } catch (error) {
       logger.error("Email verification failed", {
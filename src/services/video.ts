@@ -0,0 +1,113 @@
+import { Prisma, VideoMetadata as VideoMetadataRecord } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { ServiceResponse, VideoMetadata } from "../types";
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+export class VideoService {
+  // Create shared metadata, or fill in fields still missing from it. Details come from
+  // whichever client asked first and any user can send them, so stored values are never
+  // overwritten; each summary keeps its own copy of what its client sent.
+  async upsertMetadata(
+    metadata: VideoMetadata,
+    client: PrismaClientLike = prisma
+  ): Promise<VideoMetadataRecord> {
+    const publishedAt = this.parseDate(metadata.publishedAt);
+
+    const optionalDetails = {
+      ...(metadata.duration !== undefined && { duration: metadata.duration }),
+      ...(metadata.thumbnailUrl !== undefined && {
+        thumbnailUrl: metadata.thumbnailUrl,
+      }),
+      ...(metadata.description !== undefined && {
+        description: metadata.description,
+      }),
+      ...(publishedAt && { publishedAt }),
+      ...(metadata.viewCount !== undefined && {
+        viewCount: metadata.viewCount,
+      }),
+      ...(metadata.likeCount !== undefined && {
+        likeCount: metadata.likeCount,
+      }),
+    };
+
+    const video = await client.videoMetadata.upsert({
+      where: { videoId: metadata.videoId },
+      create: {
+        videoId: metadata.videoId,
+        title: metadata.title,
+        channelName: metadata.channelName,
+        ...optionalDetails,
+      },
+      update: {},
+    });
+
+    const missing = Object.fromEntries(
+      Object.entries(optionalDetails).filter(
+        ([field]) => video[field as keyof VideoMetadataRecord] === null
+      )
+    );
+
+    if (Object.keys(missing).length === 0) {
+      return video;
+    }
+
+    return client.videoMetadata.update({
+      where: { videoId: metadata.videoId },
+      data: missing,
+    });
+  }
+
+  // Get stored metadata for a video
+  async getVideo(videoId: string): Promise<ServiceResponse<VideoMetadata>> {
+    try {
+      const video = await prisma.videoMetadata.findUnique({
+        where: { videoId },
+      });
+
+      if (!video) {
+        throw new AppError("Video not found", 404);
+      }
+
+      return { success: true, data: this.formatVideo(video) };
+    } catch (error) {
+      logger.error("Get video metadata failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        videoId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get video", 500);
+    }
+  }
+
+  // Format stored metadata for API responses
+  formatVideo(video: VideoMetadataRecord): VideoMetadata {
+    return {
+      videoId: video.videoId,
+      title: video.title,
+      channelName: video.channelName,
+      duration: video.duration ?? undefined,
+      url: `https://youtube.com/watch?v=${video.videoId}`,
+      thumbnailUrl: video.thumbnailUrl ?? undefined,
+      description: video.description ?? undefined,
+      publishedAt: video.publishedAt?.toISOString(),
+      viewCount: video.viewCount ?? undefined,
+      likeCount: video.likeCount ?? undefined,
+    };
+  }
+
+  // Extension scrapes aren't always well-formed; ignore dates we can't parse
+  private parseDate(value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
+
+export const videoService = new VideoService();
@@ -0,0 +1,29 @@
+import crypto from "crypto";
+import { signWebhookPayload } from "./webhook";
+
+// Only pure helpers are tested here; nothing should reach the database
+jest.mock("../config/database", () => ({ prisma: {} }));
+
+describe("signWebhookPayload", () => {
+  const secret = "whsec_test";
+  const body = JSON.stringify({ id: "d1", event: "summary.completed" });
+
+  it("signs <timestamp>.<body> with HMAC-SHA256", () => {
+    const expected = crypto
+      .createHmac("sha256", secret)
+      .update(`1700000000.${body}`)
+      .digest("hex");
+
+    expect(signWebhookPayload(secret, 1700000000, body)).toBe(
+      `t=1700000000,v1=${expected}`
+    );
+  });
+
+  it("changes with the body, timestamp and secret", () => {
+    const signature = signWebhookPayload(secret, 1700000000, body);
+
+    expect(signWebhookPayload(secret, 1700000000, `${body} `)).not.toBe(signature);
+    expect(signWebhookPayload(secret, 1700000001, body)).not.toBe(signature);
+    expect(signWebhookPayload("whsec_other", 1700000000, body)).not.toBe(signature);
+  });
+});
@@ -0,0 +1,514 @@
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import { Prisma, WebhookDelivery, WebhookEndpoint } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import { AppError } from "../middleware/errorHandler";
+import { generateSecureToken } from "../utils/tokens";
+import { encryptSecret, decryptSecret } from "../utils/encryption";
+import { pinnedLookup, resolvePublicAddresses } from "../utils/network";
+import { jobQueue } from "./jobQueue";
+import {
+  CreatedWebhookEndpoint,
+  CreateWebhookDto,
+  PaginatedResponse,
+  ServiceResponse,
+  UpdateWebhookDto,
+  WebhookDeliveryInfo,
+  WebhookEndpointInfo,
+  WebhookEvent,
+} from "../types";
+
+// Job type handled by the webhook delivery worker
+export const WEBHOOK_JOB_TYPE = "webhook.deliver";
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+const MAX_WEBHOOKS_PER_USER = 5;
+
+// Stripe-style signature: HMAC-SHA256 over "<timestamp>.<body>"
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+): string => {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `t=${timestamp},v1=${signature}`;
+};
+
+// POST to the endpoint over the addresses that passed the public-address check. Redirects
+// are not followed, and the response body is discarded unread. Resolves with the status.
+const postToEndpoint = (
+  url: URL,
+  addresses: string[],
+  headers: Record<string, string>,
+  body: string
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: pinnedLookup(addresses),
+        signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+
+export class WebhookService {
+  // Register an endpoint; the signing secret is only returned here
+  async createEndpoint(
+    userId: string,
+    data: CreateWebhookDto
+  ): Promise<ServiceResponse<CreatedWebhookEndpoint>> {
+    try {
+      await this.assertDeliverableUrl(data.url);
+
+      const endpointCount = await prisma.webhookEndpoint.count({
+        where: { userId },
+      });
+
+      if (endpointCount >= MAX_WEBHOOKS_PER_USER) {
+        throw new AppError(
+          `You can have at most ${MAX_WEBHOOKS_PER_USER} webhook endpoints`,
+          400
+        );
+      }
+
+      const secret = `${WEBHOOK_SECRET_PREFIX}${generateSecureToken(24)}`;
+
+      const endpoint = await prisma.webhookEndpoint.create({
+        data: {
+          userId,
+          url: data.url,
+          description: data.description ?? null,
+          events: Array.from(new Set(data.events)),
+          encryptedSecret: encryptSecret(secret, config.webhooks.encryptionKey),
+        },
+      });
+
+      logger.info("Webhook endpoint created", {
+        userId,
+        endpointId: endpoint.id,
+        events: endpoint.events,
+      });
+
+      return {
+        success: true,
+        data: { ...this.formatEndpoint(endpoint), secret },
+      };
+    } catch (error) {
+      logger.error("Create webhook endpoint failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to create webhook endpoint", 500);
+    }
+  }
+
+  // List a user's endpoints (never includes the secret)
+  async getEndpoints(
+    userId: string
+  ): Promise<ServiceResponse<WebhookEndpointInfo[]>> {
+    try {
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: { userId },
+        orderBy: { createdAt: "desc" },
+      });
+
+      return {
+        success: true,
+        data: endpoints.map((endpoint) => this.formatEndpoint(endpoint)),
+      };
+    } catch (error) {
+      logger.error("Get webhook endpoints failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+      });
+      throw new AppError("Failed to get webhook endpoints", 500);
+    }
+  }
+
+  // Change an endpoint's URL, events or active flag
+  async updateEndpoint(
+    userId: string,
+    endpointId: string,
+    updates: UpdateWebhookDto
+  ): Promise<ServiceResponse<WebhookEndpointInfo>> {
+    try {
+      await this.findEndpoint(userId, endpointId);
+
+      if (updates.url !== undefined) {
+        await this.assertDeliverableUrl(updates.url);
+      }
+
+      const endpoint = await prisma.webhookEndpoint.update({
+        where: { id: endpointId },
+        data: {
+          ...(updates.url !== undefined && { url: updates.url }),
+          ...(updates.description !== undefined && {
+            description: updates.description,
+          }),
+          ...(updates.events !== undefined && {
+            events: Array.from(new Set(updates.events)),
+          }),
+          ...(updates.active !== undefined && { active: updates.active }),
+        },
+      });
+
+      logger.info("Webhook endpoint updated", {
+        userId,
+        endpointId,
+        updates: Object.keys(updates),
+      });
+
+      return { success: true, data: this.formatEndpoint(endpoint) };
+    } catch (error) {
+      logger.error("Update webhook endpoint failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        endpointId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to update webhook endpoint", 500);
+    }
+  }
+
+  // Delete an endpoint and its delivery log
+  async deleteEndpoint(
+    userId: string,
+    endpointId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      await this.findEndpoint(userId, endpointId);
+
+      await prisma.webhookEndpoint.delete({
+        where: { id: endpointId },
+      });
+
+      logger.info("Webhook endpoint deleted", { userId, endpointId });
+      return { success: true };
+    } catch (error) {
+      logger.error("Delete webhook endpoint failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        endpointId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to delete webhook endpoint", 500);
+    }
+  }
+
+  // Delivery log for one endpoint, newest first
+  async getDeliveries(
+    userId: string,
+    endpointId: string,
+    params: { page?: number; limit?: number } = {}
+  ): Promise<ServiceResponse<PaginatedResponse<WebhookDeliveryInfo>>> {
+    try {
+      await this.findEndpoint(userId, endpointId);
+
+      const { page = 1, limit = 20 } = params;
+
+      const [total, deliveries] = await Promise.all([
+        prisma.webhookDelivery.count({ where: { endpointId } }),
+        prisma.webhookDelivery.findMany({
+          where: { endpointId },
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+
+      const response: PaginatedResponse<WebhookDeliveryInfo> = {
+        data: deliveries.map((delivery) => this.formatDelivery(delivery)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+
+      return { success: true, data: response };
+    } catch (error) {
+      logger.error("Get webhook deliveries failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        endpointId,
+      });
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to get webhook deliveries", 500);
+    }
+  }
+
+  // Queue a delivery to every active endpoint subscribed to the event.
+  // Never throws so the triggering action isn't affected.
+  async dispatch(
+    userId: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: { userId, active: true, events: { has: event } },
+        select: { id: true },
+      });
+
+      for (const endpoint of endpoints) {
+        await prisma.$transaction(async (tx) => {
+          const delivery = await tx.webhookDelivery.create({
+            data: {
+              endpointId: endpoint.id,
+              event,
+              payload: data as Prisma.InputJsonValue,
+            },
+          });
+
+          await jobQueue.enqueue(
+            WEBHOOK_JOB_TYPE,
+            { deliveryId: delivery.id },
+            { maxAttempts: config.webhooks.maxAttempts },
+            tx
+          );
+        });
+      }
+
+      if (endpoints.length > 0) {
+        logger.info("Webhook event dispatched", {
+          userId,
+          event,
+          endpoints: endpoints.length,
+        });
+      }
+    } catch (error) {
+      logger.error("Webhook dispatch failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        userId,
+        event,
+      });
+    }
+  }
+
+  // Send one delivery attempt (called by the job worker); throws to trigger a retry
+  async deliver(deliveryId: string): Promise<void> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    });
+
+    if (!delivery || delivery.status !== "PENDING") {
+      return;
+    }
+
+    if (!delivery.endpoint.active) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: "FAILED", error: "Endpoint disabled" },
+      });
+      return;
+    }
+
+    // Checked again on every attempt: the host's DNS may have changed since it was registered.
+    // The request then connects to exactly these addresses. A lookup failure is retried
+    // like any other failed attempt.
+    const url = new URL(delivery.endpoint.url);
+    let addresses: string[] | null = [];
+    let resolveError: string | null = null;
+    try {
+      addresses = await resolvePublicAddresses(url.hostname);
+    } catch {
+      resolveError = "Endpoint host could not be resolved";
+    }
+
+    if (!addresses) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: "FAILED",
+          attempts: { increment: 1 },
+          lastAttemptAt: new Date(),
+          error: "Endpoint does not resolve to a public address",
+        },
+      });
+      return;
+    }
+
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt.toISOString(),
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const secret = decryptSecret(
+      delivery.endpoint.encryptedSecret,
+      config.webhooks.encryptionKey
+    );
+
+    let responseStatus: number | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      if (resolveError) {
+        throw new Error(resolveError);
+      }
+
+      // Only the status is kept; what the receiver sends back is never stored or shown
+      responseStatus = await postToEndpoint(
+        url,
+        addresses,
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "Knugget-Webhooks/1.0",
+          "X-Knugget-Event": delivery.event,
+          "X-Knugget-Delivery": delivery.id,
+          "X-Knugget-Signature": signWebhookPayload(secret, timestamp, body),
+        },
+        body
+      );
+
+      if (responseStatus < 200 || responseStatus >= 300) {
+        errorMessage = `Endpoint responded with ${responseStatus}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : "Request failed";
+    }
+
+    const succeeded = errorMessage === null;
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attempts: { increment: 1 },
+        lastAttemptAt: new Date(),
+        responseStatus,
+        error: errorMessage,
+        ...(succeeded && { status: "SUCCEEDED", deliveredAt: new Date() }),
+      },
+    });
+
+    if (!succeeded) {
+      throw new AppError(
+        errorMessage ?? "Webhook delivery failed",
+        502,
+        true,
+        undefined,
+        "WEBHOOK_DELIVERY_FAILED",
+        true
+      );
+    }
+
+    logger.info("Webhook delivered", {
+      deliveryId,
+      endpointId: delivery.endpointId,
+      event: delivery.event,
+      responseStatus,
+    });
+  }
+
+  // Give up on a delivery once its retries are exhausted
+  async markDeliveryFailed(deliveryId: string): Promise<void> {
+    await prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: "PENDING" },
+      data: { status: "FAILED" },
+    });
+  }
+
+  // Only allow plain http(s) targets on public hosts, and https outside development
+  private async assertDeliverableUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new AppError("Invalid webhook URL", 400);
+    }
+
+    const allowedProtocols =
+      config.server.nodeEnv === "production" ? ["https:"] : ["https:", "http:"];
+
+    if (!allowedProtocols.includes(parsed.protocol)) {
+      throw new AppError(
+        `Webhook URL must use ${allowedProtocols.join(" or ")}`,
+        400
+      );
+    }
+
+    let addresses: string[] | null;
+    try {
+      addresses = await resolvePublicAddresses(parsed.hostname);
+    } catch {
+      throw new AppError("Webhook URL host could not be resolved", 400);
+    }
+
+    if (!addresses) {
+      throw new AppError("Webhook URL must point to a public address", 400);
+    }
+  }
+
+  private async findEndpoint(
+    userId: string,
+    endpointId: string
+  ): Promise<WebhookEndpoint> {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, userId },
+    });
+
+    if (!endpoint) {
+      throw new AppError("Webhook endpoint not found", 404);
+    }
+
+    return endpoint;
+  }
+
+  private formatEndpoint(endpoint: WebhookEndpoint): WebhookEndpointInfo {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events as WebhookEvent[],
+      active: endpoint.active,
+      createdAt: endpoint.createdAt.toISOString(),
+      updatedAt: endpoint.updatedAt.toISOString(),
+    };
+  }
+
+  private formatDelivery(delivery: WebhookDelivery): WebhookDeliveryInfo {
+    return {
+      id: delivery.id,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      lastAttemptAt: delivery.lastAttemptAt?.toISOString() || null,
+      deliveredAt: delivery.deliveredAt?.toISOString() || null,
+      createdAt: delivery.createdAt.toISOString(),
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
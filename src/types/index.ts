@@ -1,5 +1,14 @@
 import { Request } from "express";
-import { User, UserPlan, SummaryStatus } from "@prisma/client";
+import {
+  User,
+  UserPlan,
+  SummaryStatus,
+  ClientType,
+  ApiKeyScope,
+  UserRole,
+  WebhookDeliveryStatus,
+  ChatRole,
+} from "@prisma/client";
 
 // API Response Types
 export interface ApiResponse<T = any> {
@@ -23,7 +32,21 @@ export interface PaginatedResponse<T> {
 
 // Auth Types
 export interface AuthUser
-  extends Omit<User, "createdAt" | "updatedAt" | "lastLoginAt"> {
+  extends Omit<
+    User,
+    | "createdAt"
+    | "updatedAt"
+    | "lastLoginAt"
+    | "passwordHash"
+    | "twoFactorEnabled"
+    | "twoFactorSecret"
+    | "twoFactorLastStep"
+    | "failedLoginCount"
+    | "lastFailedLoginAt"
+    | "lockedUntil"
+    | "disabledAt"
+    | "disabledReason"
+  > {
   createdAt: string;
   updatedAt: string;
   lastLoginAt?: string | null;
@@ -33,6 +56,7 @@ export interface JwtPayload {
   userId: string;
   email: string;
   plan: UserPlan;
+  sessionId?: string;
   iat?: number;
   exp?: number;
 }
@@ -51,9 +75,98 @@ export interface LoginResponse {
   expiresAt: number;
 }
 
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+export interface TwoFactorChallengePayload {
+  challengeUserId: string;
+  purpose: "2fa";
+  iat?: number;
+  exp?: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Session Types
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+  clientType: ClientType;
+}
+
+export interface SessionInfo {
+  id: string;
+  clientType: ClientType;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// API Key Types
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: ApiKeyScope;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string; // Only returned once, at creation
+}
+
+// Webhook Types
+export type WebhookEvent =
+  | "summary.completed"
+  | "summary.failed"
+  | "summary.deleted"
+  | "credits.low";
+
+export interface WebhookEndpointInfo {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatedWebhookEndpoint extends WebhookEndpointInfo {
+  secret: string; // Only returned once, at creation
+}
+
+export interface WebhookDeliveryInfo {
+  id: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
 // Request Extensions
 export interface AuthenticatedRequest extends Request {
   user?: AuthUser;
+  sessionId?: string;
+  apiKey?: {
+    id: string;
+    scope: ApiKeyScope;
+  };
 }
 
 // Summary Types
@@ -81,6 +194,8 @@ export interface SummaryData {
   id?: string;
   title: string;
   keyPoints: string[];
+  // Start seconds of the transcript segment backing each key point (null if unknown)
+  keyPointTimestamps?: (number | null)[];
   fullSummary: string;
   tags: string[];
   status: SummaryStatus;
@@ -90,19 +205,189 @@ export interface SummaryData {
   createdAt?: string;
   updatedAt?: string;
   saved?: boolean;
+  fromCache?: boolean;
+  chapters?: Chapter[];
+  chaptersStatus?: SummaryStatus | null;
+  options?: SummaryOptions;
+  transcriptLanguage?: string | null;
+  translatedFromId?: string | null;
+}
+
+// How a summary should be written
+export type SummaryLength = "brief" | "standard" | "detailed";
+export type SummaryStyle = "bullet" | "narrative" | "executive" | "technical";
+export type SummaryAudience = "general" | "beginner" | "intermediate" | "expert";
+
+export interface SummaryOptions {
+  length: SummaryLength;
+  style: SummaryStyle;
+  audience: SummaryAudience;
+  // Topic to emphasise, e.g. "pricing" or "code examples"
+  focus?: string;
+  // Output language, ISO 639-1
+  language: string;
+}
+
+// Summary text produced in another language
+export interface SummaryTranslation {
+  keyPoints: string[];
+  fullSummary: string;
+  tags: string[];
+}
+
+// A titled section of a video, anchored to transcript segment starts
+export interface Chapter {
+  title: string;
+  startSeconds: number;
+  endSeconds: number;
+  summary: string;
+}
+
+export interface ChaptersData {
+  summaryId: string;
+  status: SummaryStatus | null;
+  chapters: Chapter[];
+}
+
+// Follow-up Q&A about a summarized video
+export interface ChatCitation {
+  startSeconds: number;
+  timestamp: string;
+}
+
+export interface ChatMessageData {
+  id: string;
+  role: ChatRole;
+  content: string;
+  citations: ChatCitation[];
+  createdAt: string;
+}
+
+export interface ChatExchange {
+  question: ChatMessageData;
+  answer: ChatMessageData;
+  creditsCharged: number;
+  creditsRemaining: number;
+}
+
+// Everything the model sees when answering a question about a video
+export interface QuestionContext {
+  videoMetadata: VideoMetadata;
+  fullSummary: string;
+  // Full transcript, used to verify citations
+  transcript: TranscriptSegment[];
+  // The parts of the transcript relevant to the question
+  excerpt: TranscriptSegment[];
+  history: LLMMessage[];
+  question: string;
+}
+
+export interface QuestionAnswer {
+  answer: string;
+  // Start seconds of cited segments, verified against the transcript
+  citations: number[];
 }
 
 export interface GenerateSummaryRequest {
   transcript: TranscriptSegment[];
   videoMetadata: VideoMetadata;
+  options?: Partial<SummaryOptions>;
 }
 
 export interface OpenAISummaryResponse {
   keyPoints: string[];
+  // Aligned with keyPoints; verified against the transcript
+  keyPointTimestamps: (number | null)[];
   fullSummary: string;
   tags: string[];
 }
 
+// LLM provider types
+export type LLMProviderName = "openai" | "local" | "fake";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  // Ask for a JSON object response
+  json?: boolean;
+  // What the call is for; the fake provider answers in the matching shape
+  purpose?: LLMCallPurpose;
+  // Stream the response, reporting raw content deltas as they arrive
+  onDelta?: (delta: string) => void;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface LLMCompletionResult {
+  content: string | null;
+  // Null when the provider doesn't report token counts
+  usage: LLMUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+}
+
+// Provider and model chosen for a request
+export interface LLMTarget {
+  provider: LLMProviderName;
+  model: string;
+}
+
+// What an LLM call is for
+export type LLMCallPurpose =
+  | "summary"
+  | "chunk"
+  | "final"
+  | "chapters"
+  | "chapters_chunk"
+  | "chat"
+  | "translation";
+
+// Usage of a single LLM call made while generating a summary
+export interface LLMCallUsage extends LLMUsage {
+  provider: LLMProviderName;
+  model: string;
+  purpose: LLMCallPurpose;
+  chunkIndex?: number;
+}
+
+// Callbacks for reporting progress while a summary is generated
+export interface GenerationHooks {
+  onChunkProgress?: (chunk: number, totalChunks: number) => void;
+  onToken?: (delta: string) => void;
+  // A streamed attempt failed and is being retried; text from onToken so far should be discarded
+  onTokenReset?: () => void;
+  onUsage?: (usage: LLMCallUsage) => void;
+}
+
+// Events streamed to clients watching a summary
+export type SummaryEvent =
+  | { type: "status"; summaryId: string; status: SummaryStatus }
+  | {
+      type: "progress";
+      summaryId: string;
+      chunk: number;
+      totalChunks: number;
+    }
+  | { type: "token"; summaryId: string; delta: string }
+  | { type: "reset"; summaryId: string }
+  | { type: "completed"; summaryId: string; summary: SummaryData }
+  | { type: "failed"; summaryId: string; error: string }
+  | { type: "timeout"; summaryId: string };
+
 // User Types
 export interface UserProfile {
   id: string;
@@ -125,6 +410,24 @@ export interface UserStats {
   joinedDate: string;
 }
 
+// Email Types
+export type EmailTemplate =
+  | "welcome"
+  | "verification"
+  | "password-reset"
+  | "low-credits"
+  | "plan-change"
+  | "account-locked";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  template: EmailTemplate;
+}
+
 // Validation Schemas (DTOs)
 export interface RegisterDto {
   email: string;
@@ -137,6 +440,11 @@ export interface LoginDto {
   password: string;
 }
 
+export interface TwoFactorLoginDto {
+  challengeToken: string;
+  code: string;
+}
+
 export interface RefreshTokenDto {
   refreshToken: string;
 }
@@ -150,6 +458,10 @@ export interface ResetPasswordDto {
   password: string;
 }
 
+export interface UnlockAccountDto {
+  token: string;
+}
+
 export interface VerifyEmailDto {
   token: string;
 }
@@ -162,6 +474,34 @@ export interface UpdateProfileDto {
 export interface GenerateSummaryDto {
   transcript: TranscriptSegment[];
   videoMetadata: VideoMetadata;
+  options?: Partial<SummaryOptions>;
+}
+
+export interface TranslateSummaryDto {
+  language: string;
+}
+
+export interface AskQuestionDto {
+  question: string;
+}
+
+export interface CreateApiKeyDto {
+  name: string;
+  scope?: ApiKeyScope;
+  expiresInDays?: number;
+}
+
+export interface CreateWebhookDto {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+}
+
+export interface UpdateWebhookDto {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEvent[];
+  active?: boolean;
 }
 
 export interface UpdateSummaryDto {
@@ -184,7 +524,21 @@ export interface ApiError extends Error {
 }
 
 // Utility Types
-export type CreateUserData = Omit<User, "id" | "createdAt" | "updatedAt">;
+export type CreateUserData = Omit<
+  User,
+  | "id"
+  | "role"
+  | "createdAt"
+  | "updatedAt"
+  | "twoFactorEnabled"
+  | "twoFactorSecret"
+  | "twoFactorLastStep"
+  | "failedLoginCount"
+  | "lastFailedLoginAt"
+  | "lockedUntil"
+  | "disabledAt"
+  | "disabledReason"
+>;
 export type UpdateUserData = Partial<
   Pick<
     User,
@@ -232,6 +586,155 @@ export interface UserQueryParams {
   sortOrder?: "asc" | "desc";
 }
 
+// Admin Types
+export interface AdminUserListItem extends UserProfile {
+  role: UserRole;
+  twoFactorEnabled: boolean;
+  disabledAt: string | null;
+  disabledReason: string | null;
+  summaryCount: number;
+}
+
+export interface AdminUserDetail extends AdminUserListItem {
+  stats: UserStats;
+  activeSessions: number;
+  activeApiKeys: number;
+  recentSummaries: SummaryData[];
+}
+
+export interface AdjustCreditsDto {
+  credits: number;
+  reason: string;
+}
+
+export interface DisableUserDto {
+  reason: string;
+}
+
+// Why credits were charged or refunded, as recorded in the audit log
+export interface CreditReason {
+  reason: string;
+  // The summary the credits were spent on, if any
+  summaryId?: string;
+}
+
+// Audit Types
+export type AuditAction =
+  | "auth.register"
+  | "auth.login"
+  | "auth.login_failed"
+  | "auth.logout"
+  | "auth.password_reset"
+  | "auth.email_verified"
+  | "auth.two_factor_enabled"
+  | "auth.two_factor_disabled"
+  | "auth.two_factor_recovery_codes_regenerated"
+  | "auth.session_revoked"
+  | "auth.tokens_revoked"
+  | "auth.token_reuse_detected"
+  | "auth.account_locked"
+  | "auth.account_unlocked"
+  | "user.credits_added"
+  | "user.credits_deducted"
+  | "user.credits_adjusted"
+  | "user.plan_changed"
+  | "user.email_verified"
+  | "user.disabled"
+  | "user.enabled"
+  | "user.deleted"
+  | "summary.deleted"
+  | "summary.cache_invalidated";
+
+// Who triggered an event and from where
+export interface AuditContext {
+  actorId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  targetUserId?: string;
+  targetType?: string;
+  targetId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventInfo {
+  id: string;
+  action: string;
+  actorId: string | null;
+  targetUserId: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AuditQueryParams {
+  page?: number;
+  limit?: number;
+  action?: string;
+  actorId?: string;
+  targetUserId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// LLM usage reporting
+export interface UsageQueryParams {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  summaries: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageByModel {
+  provider: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageByPlan {
+  plan: UserPlan;
+  summaries: number;
+  users: number;
+  costUsd: number;
+  averageCostPerSummary: number;
+}
+
+export interface UsageStats {
+  totals: UsageTotals;
+  byModel: UsageByModel[];
+  // Global stats only
+  byPlan?: UsageByPlan[];
+}
+
+export interface SummaryUsageCall extends LLMCallUsage {
+  createdAt: string;
+}
+
+export interface SummaryUsage {
+  summaryId: string;
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  calls: SummaryUsageCall[];
+}
+
 // Service Response Types
 export interface ServiceResponse<T = any> {
   success: boolean;
@@ -243,6 +746,15 @@ export interface ServiceResponse<T = any> {
 // Constants
 export const MAX_TRANSCRIPT_LENGTH = 50000; // chars
 export const MAX_SUMMARY_HISTORY = 100; // per user
+export const MAX_CHAT_CONTEXT_LENGTH = 12000; // transcript chars sent with a question
+export const MAX_CHAT_HISTORY = 10; // earlier messages sent with a question
+export const MIN_CHAPTER_SECONDS = 10; // YouTube ignores chapter lists with shorter sections
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+  length: "standard",
+  style: "narrative",
+  audience: "general",
+  language: "en",
+};
 export const DEFAULT_PAGE_SIZE = 20;
 export const MAX_PAGE_SIZE = 100;
 
@@ -251,6 +763,11 @@ export {
   User,
   UserPlan,
   SummaryStatus,
+  ClientType,
+  ApiKeyScope,
+  UserRole,
+  WebhookDeliveryStatus,
+  ChatRole,
   Summary,
   RefreshToken,
   VideoMetadata as PrismaVideoMetadata,
@@ -0,0 +1,51 @@
+import { mapWithConcurrency } from "./concurrency";
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("mapWithConcurrency", () => {
+  it("preserves input order", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, i) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return `${i}:${ms}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:10", "2:20"]);
+  });
+
+  it("never runs more than the limit at once", async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("stops starting items after a failure and rejects with it", async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async (item) => {
+        started.push(item);
+        await tick();
+        if (item === 1) {
+          throw new Error("item 1 failed");
+        }
+      })
+    ).rejects.toThrow("item 1 failed");
+
+    expect(started).not.toContain(5);
+  });
+
+  it("handles empty input and limits below one", async () => {
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+    await expect(
+      mapWithConcurrency([1, 2], 0, async (n) => n * 2)
+    ).resolves.toEqual([2, 4]);
+  });
+});
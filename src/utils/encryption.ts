@@ -0,0 +1,39 @@
+import crypto from "crypto";
+
+// AES-256-GCM helpers for secrets we must be able to read back (e.g. TOTP seeds)
+const ALGORITHM = "aes-256-gcm";
+
+const deriveKey = (secret: string): Buffer => {
+  return crypto.createHash("sha256").update(secret).digest();
+};
+
+// Returns iv:authTag:ciphertext, all base64
+export const encryptSecret = (plaintext: string, secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+};
+
+export const decryptSecret = (payload: string, secret: string): string => {
+  const [iv, authTag, encrypted] = payload.split(":");
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    deriveKey(secret),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+};
@@ -0,0 +1,76 @@
+// JSON escape sequences other than \uXXXX
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+// Pulls the decoded value of one string field out of a JSON document as it
+// streams in, so partial model output can be shown before the JSON is complete.
+export class JsonStringFieldReader {
+  private buffer = "";
+  private position = 0;
+  private state: "search" | "value" | "done" = "search";
+  private readonly keyPattern: RegExp;
+
+  constructor(field: string) {
+    this.keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  }
+
+  // Feed the next piece of raw JSON; returns any newly decoded field text
+  push(chunk: string): string {
+    this.buffer += chunk;
+
+    if (this.state === "search") {
+      const match = this.keyPattern.exec(this.buffer);
+      if (!match) {
+        return "";
+      }
+
+      this.position = match.index + match[0].length;
+      this.state = "value";
+    }
+
+    let output = "";
+    while (this.state === "value" && this.position < this.buffer.length) {
+      const char = this.buffer[this.position];
+
+      if (char === '"') {
+        this.state = "done";
+        break;
+      }
+
+      if (char === "\\") {
+        const next = this.buffer[this.position + 1];
+        if (next === undefined) {
+          break; // wait for the rest of the escape
+        }
+
+        if (next === "u") {
+          const hex = this.buffer.slice(this.position + 2, this.position + 6);
+          if (hex.length < 4) {
+            break;
+          }
+
+          output += String.fromCharCode(parseInt(hex, 16));
+          this.position += 6;
+          continue;
+        }
+
+        output += ESCAPES[next] ?? next;
+        this.position += 2;
+        continue;
+      }
+
+      output += char;
+      this.position++;
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,54 @@
+import { detectLanguage, languageName } from "./language";
+
+describe("detectLanguage", () => {
+  it("detects Latin-script languages by their common words", () => {
+    expect(
+      detectLanguage(
+        "So this is the part of the video where we look at what you have to do with the settings and why it is important for the rest of it."
+      )
+    ).toBe("en");
+    expect(
+      detectLanguage(
+        "En este video vamos a ver que es lo que pasa con la configuración y por qué es muy importante para los usuarios de la aplicación."
+      )
+    ).toBe("es");
+    expect(
+      detectLanguage(
+        "Dans cette vidéo, je vous montre comment configurer le serveur et pourquoi ce n'est pas une étape que vous pouvez ignorer avec les nouveaux projets."
+      )
+    ).toBe("fr");
+    expect(
+      detectLanguage(
+        "In diesem Video zeige ich, wie man das Projekt einrichtet, und warum es nicht so schwer ist, wie die meisten denken. Wir fangen mit der Konfiguration an und schauen uns dann auch den Rest an."
+      )
+    ).toBe("de");
+  });
+
+  it("detects romanized Hindi", () => {
+    expect(
+      detectLanguage(
+        "Aaj ke video mein hum dekhenge ki yeh kya hai aur kaise kaam karta hai, main aapko bhi dikhaunga ki iska use kaise ho sakta hai."
+      )
+    ).toBe("hi");
+  });
+
+  it("detects languages by script", () => {
+    expect(detectLanguage("आज के वीडियो में हम देखेंगे कि यह क्या है और कैसे काम करता है")).toBe("hi");
+    expect(detectLanguage("Сегодня мы посмотрим, как это работает и почему это важно для всех")).toBe("ru");
+    expect(detectLanguage("今日はこのアプリの使い方について説明します。まず設定を開いてください。")).toBe("ja");
+    expect(detectLanguage("오늘은 이 앱을 사용하는 방법에 대해 설명하겠습니다 먼저 설정을 열어주세요")).toBe("ko");
+  });
+
+  it("returns null without enough text or a clear winner", () => {
+    expect(detectLanguage("ok")).toBeNull();
+    expect(detectLanguage("1:00 2:00 3:00 4:00 5:00 6:00 7:00 8:00")).toBeNull();
+    expect(detectLanguage("Lorem ipsum dolor sit amet consectetur adipiscing elit sed")).toBeNull();
+  });
+});
+
+describe("languageName", () => {
+  it("names known codes and falls back to the code", () => {
+    expect(languageName("es")).toBe("Spanish");
+    expect(languageName("xx")).toBe("xx");
+  });
+});
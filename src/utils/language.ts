@@ -0,0 +1,96 @@
+// Languages summaries can be written in, by ISO 639-1 code
+export const LANGUAGES = {
+  en: "English",
+  es: "Spanish",
+  hi: "Hindi",
+  fr: "French",
+  de: "German",
+  pt: "Portuguese",
+  it: "Italian",
+  ja: "Japanese",
+  ko: "Korean",
+  zh: "Chinese",
+  ar: "Arabic",
+  ru: "Russian",
+} as const;
+
+export type LanguageCode = keyof typeof LANGUAGES;
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as [
+  LanguageCode,
+  ...LanguageCode[]
+];
+
+// Name for prompts and messages, falling back to the code itself
+export const languageName = (code: string): string =>
+  LANGUAGES[code as LanguageCode] ?? code;
+
+// Detection only needs a sample; long transcripts don't change the answer
+const SAMPLE_LENGTH = 5000; // chars
+
+// Languages with their own script
+const SCRIPTS: [LanguageCode, RegExp][] = [
+  ["hi", /[\u0900-\u097F]/g],
+  ["ko", /[\uAC00-\uD7AF\u1100-\u11FF]/g],
+  ["zh", /[\u4E00-\u9FFF]/g],
+  ["ar", /[\u0600-\u06FF]/g],
+  ["ru", /[\u0400-\u04FF]/g],
+];
+
+// Japanese mixes kana with Chinese characters; any real share of kana means Japanese
+const KANA = /[\u3040-\u30FF]/g;
+
+// Frequent short words in Latin-script languages (Hindi as commonly romanized in captions)
+const STOP_WORDS: Partial<Record<LanguageCode, Set<string>>> = {
+  en: new Set(["the", "and", "is", "to", "of", "that", "it", "you", "this", "for", "was", "with", "what", "are", "have"]),
+  es: new Set(["el", "la", "de", "que", "y", "en", "los", "es", "por", "las", "una", "con", "para", "pero", "muy", "como"]),
+  fr: new Set(["le", "la", "les", "de", "et", "est", "que", "une", "pour", "pas", "dans", "vous", "ce", "avec", "je", "des"]),
+  de: new Set(["der", "die", "und", "das", "ist", "nicht", "ich", "es", "sie", "ein", "zu", "mit", "auf", "auch", "wir", "den"]),
+  pt: new Set(["o", "a", "de", "que", "e", "não", "uma", "com", "para", "os", "você", "mas", "muito", "isso", "em", "do"]),
+  it: new Set(["il", "di", "che", "e", "la", "per", "non", "un", "sono", "è", "con", "questo", "anche", "ma", "gli", "della"]),
+  hi: new Set(["hai", "ki", "ke", "ko", "nahi", "aur", "main", "mein", "kya", "yeh", "ye", "bhi", "ho", "tha", "hum", "hain"]),
+};
+
+const countMatches = (text: string, pattern: RegExp): number =>
+  text.match(pattern)?.length ?? 0;
+
+// Best guess at the language of some text; null when there isn't enough to go on
+export const detectLanguage = (text: string): LanguageCode | null => {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const letters = countMatches(sample, /\p{L}/gu);
+  if (letters < 20) {
+    return null;
+  }
+
+  if (countMatches(sample, KANA) / letters > 0.1) {
+    return "ja";
+  }
+
+  for (const [code, pattern] of SCRIPTS) {
+    if (countMatches(sample, pattern) / letters > 0.3) {
+      return code;
+    }
+  }
+
+  const words = sample.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best: LanguageCode | null = null;
+  let bestScore = 0;
+  let runnerUp = 0;
+
+  for (const [code, stopWords] of Object.entries(STOP_WORDS) as [
+    LanguageCode,
+    Set<string>
+  ][]) {
+    const score = words.filter((word) => stopWords.has(word)).length;
+    if (score > bestScore) {
+      runnerUp = bestScore;
+      bestScore = score;
+      best = code;
+    } else if (score > runnerUp) {
+      runnerUp = score;
+    }
+  }
+
+  // Related languages share words like "de" and "que"; require a clear winner
+  return bestScore >= 3 && bestScore >= runnerUp * 1.2 ? best : null;
+};
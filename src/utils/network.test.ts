@@ -0,0 +1,61 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { isPublicAddress, pinnedLookup } from "./network";
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "not-an-ip",
+  ])("rejects %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(["93.184.216.34", "8.8.8.8", "2606:4700:4700::1111"])(
+    "accepts %s",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  );
+});
+
+describe("pinnedLookup", () => {
+  it("connects to the pinned address whatever the host name resolves to", async () => {
+    const server = http.createServer((_req, res) => {
+      res.statusCode = 204;
+      res.end();
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const status = await new Promise<number>((resolve, reject) => {
+        http
+          .get(
+            `http://webhook.invalid:${port}/`,
+            { lookup: pinnedLookup(["127.0.0.1"]) },
+            (res) => {
+              res.resume();
+              resolve(res.statusCode ?? 0);
+            }
+          )
+          .on("error", reject);
+      });
+
+      expect(status).toBe(204);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
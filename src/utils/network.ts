@@ -0,0 +1,70 @@
+import dns from "dns/promises";
+import net from "net";
+
+// Address ranges a server-side request must never reach: loopback, private,
+// link-local, CGNAT, unique-local, multicast and other reserved blocks
+const BLOCKED_RANGES = new net.BlockList();
+BLOCKED_RANGES.addSubnet("0.0.0.0", 8, "ipv4");
+BLOCKED_RANGES.addSubnet("10.0.0.0", 8, "ipv4");
+BLOCKED_RANGES.addSubnet("100.64.0.0", 10, "ipv4");
+BLOCKED_RANGES.addSubnet("127.0.0.0", 8, "ipv4");
+BLOCKED_RANGES.addSubnet("169.254.0.0", 16, "ipv4");
+BLOCKED_RANGES.addSubnet("172.16.0.0", 12, "ipv4");
+BLOCKED_RANGES.addSubnet("192.0.0.0", 24, "ipv4");
+BLOCKED_RANGES.addSubnet("192.168.0.0", 16, "ipv4");
+BLOCKED_RANGES.addSubnet("198.18.0.0", 15, "ipv4");
+BLOCKED_RANGES.addSubnet("224.0.0.0", 3, "ipv4");
+BLOCKED_RANGES.addSubnet("::", 128, "ipv6");
+BLOCKED_RANGES.addSubnet("::1", 128, "ipv6");
+BLOCKED_RANGES.addSubnet("fc00::", 7, "ipv6");
+BLOCKED_RANGES.addSubnet("fe80::", 10, "ipv6");
+BLOCKED_RANGES.addSubnet("ff00::", 8, "ipv6");
+
+// IPv4-mapped IPv6 ("::ffff:10.0.0.1") is checked as the IPv4 address it maps to
+const MAPPED_IPV4 = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+// Whether an IP address is publicly routable
+export const isPublicAddress = (address: string): boolean => {
+  const mapped = address.match(MAPPED_IPV4);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip);
+
+  if (family === 0) {
+    return false;
+  }
+
+  return !BLOCKED_RANGES.check(ip, family === 4 ? "ipv4" : "ipv6");
+};
+
+// Resolve a hostname and return its addresses if every one of them is public, or null if any isn't.
+// DNS failures are thrown so callers can tell them apart from a blocked host.
+export const resolvePublicAddresses = async (
+  hostname: string
+): Promise<string[] | null> => {
+  // URL hostnames keep the brackets around IPv6 literals
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const records = await dns.lookup(host, { all: true, verbatim: true });
+  const addresses = records.map((record) => record.address);
+
+  return addresses.length > 0 && addresses.every(isPublicAddress)
+    ? addresses
+    : null;
+};
+
+// A lookup for http(s).request that answers with already-checked addresses instead of
+// resolving the host again, so DNS rebinding can't swap in a private address afterwards
+export const pinnedLookup = (addresses: string[]): net.LookupFunction => {
+  const records = addresses.map((address) => ({
+    address,
+    family: net.isIP(address),
+  }));
+
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, records);
+      return;
+    }
+
+    callback(null, records[0].address, records[0].family);
+  };
+};
@@ -0,0 +1,30 @@
+import { Request } from "express";
+import { ClientType } from "@prisma/client";
+import { AuditContext, AuthenticatedRequest, SessionContext } from "../types";
+
+// Work out which Knugget client made the request
+export const getClientType = (req: Request): ClientType => {
+  const declared = req.get("X-Client-Type")?.toLowerCase();
+  if (declared === "extension") return "CHROME_EXTENSION";
+  if (declared === "web") return "WEB_APP";
+
+  const origin = req.get("Origin");
+  if (origin?.startsWith("chrome-extension://")) return "CHROME_EXTENSION";
+  if (origin?.startsWith("http")) return "WEB_APP";
+
+  return "UNKNOWN";
+};
+
+// Collect device details stored alongside a session
+export const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get("User-Agent"),
+  ipAddress: req.ip,
+  clientType: getClientType(req),
+});
+
+// Actor and origin recorded on audit events
+export const getAuditContext = (req: AuthenticatedRequest): AuditContext => ({
+  actorId: req.user?.id,
+  ipAddress: req.ip,
+  userAgent: req.get("User-Agent"),
+});
@@ -0,0 +1,69 @@
+import { selectRelevantSegments } from "./retrieval";
+import { TranscriptSegment } from "../types";
+
+// One segment per passage: each is padded past the passage length with a shared word
+const segment = (minute: number, text: string): TranscriptSegment => ({
+  timestamp: `${minute}:00`,
+  text: `${text} ${"filler ".repeat(120)}`,
+});
+
+const transcript = [
+  segment(0, "Welcome to the channel, today we bake bread"),
+  segment(1, "First weigh the flour and the water"),
+  segment(2, "Knead the dough until it is smooth"),
+  segment(3, "The oven should be very hot, preheat the oven early"),
+  segment(4, "Thanks for watching, subscribe for more"),
+];
+const passageLength = Math.max(...transcript.map(({ text }) => text.length));
+
+describe("selectRelevantSegments", () => {
+  it("returns short transcripts whole", () => {
+    expect(selectRelevantSegments(transcript, "oven", 100_000)).toBe(
+      transcript
+    );
+  });
+
+  it("picks the passages that match the query", () => {
+    expect(
+      selectRelevantSegments(transcript, "How hot is the oven?", passageLength)
+    ).toEqual([transcript[3]]);
+  });
+
+  it("ranks by relevance but returns passages in video order", () => {
+    const selected = selectRelevantSegments(
+      transcript,
+      "oven dough",
+      passageLength * 2
+    );
+
+    expect(selected).toEqual([transcript[2], transcript[3]]);
+  });
+
+  it("folds plurals when matching", () => {
+    expect(selectRelevantSegments(transcript, "flours", passageLength)).toEqual(
+      [transcript[1]]
+    );
+  });
+
+  it("falls back to the opening when nothing matches", () => {
+    expect(
+      selectRelevantSegments(
+        transcript,
+        "what about the car?",
+        passageLength * 2
+      )
+    ).toEqual([transcript[0], transcript[1]]);
+  });
+
+  it("stays within the character budget", () => {
+    const selected = selectRelevantSegments(
+      transcript,
+      "oven dough flour",
+      passageLength * 2 + 10
+    );
+
+    expect(
+      selected.reduce((sum, { text }) => sum + text.length, 0)
+    ).toBeLessThanOrEqual(passageLength * 2 + 10);
+  });
+});
@@ -0,0 +1,132 @@
+import { TranscriptSegment } from "../types";
+
+// Consecutive segments are scored together; single captions are too short to rank
+const PASSAGE_LENGTH = 800; // chars
+
+// BM25 tuning (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Words that say nothing about which part of a video is relevant
+const STOP_WORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "but", "by", "can",
+  "did", "do", "does", "for", "from", "had", "has", "have", "he", "her",
+  "his", "how", "i", "if", "in", "is", "it", "its", "me", "my", "not", "of",
+  "on", "or", "our", "she", "so", "that", "the", "their", "them", "then",
+  "there", "they", "this", "to", "up", "was", "we", "were", "what", "when",
+  "where", "which", "who", "why", "will", "with", "you", "your",
+  "video", "talk", "say", "said", "mention", "mentioned",
+]);
+
+// Lowercased words with stop words dropped and plurals folded
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) =>
+      word.length > 4 && word.endsWith("ies")
+        ? `${word.slice(0, -3)}y`
+        : word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+          ? word.slice(0, -1)
+          : word
+    );
+
+// Group consecutive segments into passages of about PASSAGE_LENGTH characters
+const toPassages = (transcript: TranscriptSegment[]): TranscriptSegment[][] => {
+  const passages: TranscriptSegment[][] = [];
+  let current: TranscriptSegment[] = [];
+  let length = 0;
+
+  for (const segment of transcript) {
+    current.push(segment);
+    length += segment.text.length;
+
+    if (length >= PASSAGE_LENGTH) {
+      passages.push(current);
+      current = [];
+      length = 0;
+    }
+  }
+
+  if (current.length > 0) {
+    passages.push(current);
+  }
+
+  return passages;
+};
+
+const passageLength = (passage: TranscriptSegment[]): number =>
+  passage.reduce((sum, segment) => sum + segment.text.length, 0);
+
+// Pick the transcript passages most relevant to a query (BM25), within a character budget.
+// Short transcripts are returned whole; the result is always in video order.
+export const selectRelevantSegments = (
+  transcript: TranscriptSegment[],
+  query: string,
+  maxLength: number
+): TranscriptSegment[] => {
+  if (passageLength(transcript) <= maxLength) {
+    return transcript;
+  }
+
+  const passages = toPassages(transcript);
+  const documents = passages.map((passage) =>
+    tokenize(passage.map((segment) => segment.text).join(" "))
+  );
+  const terms = Array.from(new Set(tokenize(query)));
+
+  const averageLength =
+    documents.reduce((sum, words) => sum + words.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const words of documents) {
+    for (const term of new Set(words)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const scores = documents.map((words) => {
+    const counts = new Map<string, number>();
+    for (const word of words) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+
+    return terms.reduce((score, term) => {
+      const tf = counts.get(term) ?? 0;
+      if (tf === 0) {
+        return score;
+      }
+
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const norm = tf + K1 * (1 - B + (B * words.length) / averageLength);
+
+      return score + (idf * tf * (K1 + 1)) / norm;
+    }, 0);
+  });
+
+  // Best passages first; with no matches at all, fall back to the opening of the video
+  const ranked = passages
+    .map((passage, index) => ({ index, score: scores[index] }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+  const order =
+    ranked.length > 0 ? ranked : passages.map((_, index) => ({ index, score: 0 }));
+
+  const selected: number[] = [];
+  let used = 0;
+  for (const { index } of order) {
+    const length = passageLength(passages[index]);
+    if (used + length > maxLength) {
+      continue;
+    }
+
+    selected.push(index);
+    used += length;
+  }
+
+  return selected
+    .sort((a, b) => a - b)
+    .flatMap((index) => passages[index]);
+};
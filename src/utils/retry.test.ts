@@ -0,0 +1,86 @@
+import { withRetry, RetryOptions } from "./retry";
+
+const options = (overrides: Partial<RetryOptions> = {}): RetryOptions => ({
+  retries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 10,
+  shouldRetry: () => true,
+  ...overrides,
+});
+
+describe("withRetry", () => {
+  it("returns the first successful result", async () => {
+    const fn = jest.fn().mockResolvedValue("ok");
+
+    await expect(withRetry(fn, options())).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(1);
+  });
+
+  it("retries failures until one succeeds", async () => {
+    const onRetry = jest.fn();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("first"))
+      .mockRejectedValueOnce(new Error("second"))
+      .mockResolvedValue("ok");
+
+    await expect(withRetry(fn, options({ onRetry }))).resolves.toBe("ok");
+    expect(fn.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][1]).toBe(1);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const fn = jest.fn().mockRejectedValue(new Error("down"));
+
+    await expect(withRetry(fn, options({ retries: 2 }))).rejects.toThrow("down");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry errors shouldRetry rejects", async () => {
+    const fn = jest.fn().mockRejectedValue(new Error("bad request"));
+
+    await expect(
+      withRetry(fn, options({ shouldRetry: () => false }))
+    ).rejects.toThrow("bad request");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for the server's retry-after hint", async () => {
+    const onRetry = jest.fn();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("rate limited"))
+      .mockResolvedValue("ok");
+
+    await withRetry(fn, options({ getRetryAfterMs: () => 7, onRetry }));
+    expect(onRetry.mock.calls[0][2]).toBe(7);
+  });
+
+  it("rethrows when the retry-after hint is longer than it will wait", async () => {
+    const fn = jest.fn().mockRejectedValue(new Error("rate limited"));
+
+    await expect(
+      withRetry(fn, options({ getRetryAfterMs: () => 60_000 }))
+    ).rejects.toThrow("rate limited");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps backoff within maxDelayMs", async () => {
+    const onRetry = jest.fn();
+    const fn = jest.fn().mockRejectedValue(new Error("down"));
+
+    await expect(
+      withRetry(
+        fn,
+        options({ retries: 4, baseDelayMs: 4, maxDelayMs: 8, onRetry })
+      )
+    ).rejects.toThrow();
+
+    for (const [, , delayMs] of onRetry.mock.calls) {
+      expect(delayMs).toBeGreaterThanOrEqual(2);
+      expect(delayMs).toBeLessThanOrEqual(8);
+    }
+  });
+});
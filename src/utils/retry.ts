@@ -0,0 +1,45 @@
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  // Server-requested wait (e.g. Retry-After); takes precedence over backoff
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Run fn, retrying transient failures with jittered exponential backoff.
+// A server hint longer than maxDelayMs is not waited out here; the error is
+// rethrown so a slower outer retry (the job queue) can deal with it.
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt > options.retries || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const hint = options.getRetryAfterMs?.(error);
+      if (hint !== undefined && hint > options.maxDelayMs) {
+        throw error;
+      }
+
+      const backoff = Math.min(
+        options.baseDelayMs * 2 ** (attempt - 1),
+        options.maxDelayMs
+      );
+      const delay = hint ?? Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay);
+    }
+  }
+};
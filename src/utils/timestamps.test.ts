@@ -0,0 +1,68 @@
+import {
+  formatTimestamp,
+  parseTimestamp,
+  resolveSegmentStart,
+} from "./timestamps";
+import { TranscriptSegment } from "../types";
+
+const transcript: TranscriptSegment[] = [
+  { timestamp: "0:00", text: "Intro" },
+  { timestamp: "0:15", text: "Setup" },
+  { timestamp: "1:05", text: "Main point", startSeconds: 65.4, endSeconds: 90 },
+  { timestamp: "2:30", text: "Wrap up" },
+];
+
+describe("parseTimestamp", () => {
+  it("parses m:ss and h:mm:ss, bracketed or not", () => {
+    expect(parseTimestamp("1:05")).toBe(65);
+    expect(parseTimestamp("[1:02:03]")).toBe(3723);
+    expect(parseTimestamp("0:07.8")).toBe(7);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseTimestamp("65")).toBeNull();
+    expect(parseTimestamp("1:2:3:4")).toBeNull();
+    expect(parseTimestamp("a:bc")).toBeNull();
+  });
+});
+
+describe("formatTimestamp", () => {
+  it("formats seconds as m:ss or h:mm:ss", () => {
+    expect(formatTimestamp(0)).toBe("0:00");
+    expect(formatTimestamp(65.9)).toBe("1:05");
+    expect(formatTimestamp(3723)).toBe("1:02:03");
+    expect(formatTimestamp(-5)).toBe("0:00");
+  });
+});
+
+describe("resolveSegmentStart", () => {
+  it("matches a cited label exactly", () => {
+    expect(resolveSegmentStart(transcript, "0:15")).toBe(15);
+    expect(resolveSegmentStart(transcript, "[0:15]")).toBe(15);
+  });
+
+  it("prefers the segment's own startSeconds", () => {
+    expect(resolveSegmentStart(transcript, "1:05")).toBe(65);
+  });
+
+  it("snaps a time inside a segment to that segment's start", () => {
+    expect(resolveSegmentStart(transcript, "0:40")).toBe(15);
+    expect(resolveSegmentStart(transcript, 80)).toBe(65);
+  });
+
+  it("uses endSeconds to find gaps between segments", () => {
+    expect(resolveSegmentStart(transcript, "2:00")).toBeNull();
+  });
+
+  it("accepts a short window past the last segment", () => {
+    expect(resolveSegmentStart(transcript, "3:00")).toBe(150);
+    expect(resolveSegmentStart(transcript, "3:51")).toBeNull();
+  });
+
+  it("returns null for missing or unparseable citations", () => {
+    expect(resolveSegmentStart(transcript, null)).toBeNull();
+    expect(resolveSegmentStart(transcript, undefined)).toBeNull();
+    expect(resolveSegmentStart(transcript, "soon")).toBeNull();
+    expect(resolveSegmentStart([], "0:00")).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { TranscriptSegment } from "../types";
+
+// Parse "12:34" or "1:02:03" (optionally bracketed) into seconds
+export const parseTimestamp = (value: string): number | null => {
+  const parts = value.trim().replace(/^\[|\]$/g, "").split(":");
+  if (parts.length < 2 || parts.length > 3) {
+    return null;
+  }
+
+  let seconds = 0;
+  for (const part of parts) {
+    if (!/^\d+(\.\d+)?$/.test(part)) {
+      return null;
+    }
+    seconds = seconds * 60 + Number(part);
+  }
+
+  return Math.floor(seconds);
+};
+
+// Format seconds as m:ss, or h:mm:ss for an hour or more
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const ss = s.toString().padStart(2, "0");
+
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${ss}` : `${m}:${ss}`;
+};
+
+// A segment's start, preferring the extension's startSeconds over the display label
+export const segmentStartSeconds = (
+  segment: TranscriptSegment
+): number | null => {
+  if (typeof segment.startSeconds === "number" && segment.startSeconds >= 0) {
+    return Math.floor(segment.startSeconds);
+  }
+
+  return parseTimestamp(segment.timestamp);
+};
+
+// Resolve a timestamp cited by the model to the start of a real transcript segment.
+// Exact label matches win; otherwise the segment whose span contains the time is used.
+// Returns null when the citation doesn't land inside the transcript.
+export const resolveSegmentStart = (
+  transcript: TranscriptSegment[],
+  cited: string | number | null | undefined
+): number | null => {
+  if (cited === null || cited === undefined || transcript.length === 0) {
+    return null;
+  }
+
+  if (typeof cited === "string") {
+    const label = cited.trim().replace(/^\[|\]$/g, "");
+    const exact = transcript.find((segment) => segment.timestamp === label);
+    if (exact) {
+      return segmentStartSeconds(exact);
+    }
+  }
+
+  const seconds = typeof cited === "number" ? cited : parseTimestamp(cited);
+  if (seconds === null || !isFinite(seconds)) {
+    return null;
+  }
+
+  let match: number | null = null;
+  for (let i = 0; i < transcript.length; i++) {
+    const start = segmentStartSeconds(transcript[i]);
+    if (start === null || start > seconds) {
+      continue;
+    }
+
+    const end =
+      transcript[i].endSeconds ??
+      (i + 1 < transcript.length
+        ? segmentStartSeconds(transcript[i + 1])
+        : null);
+
+    // The last segment has no known end; accept a short window past its start
+    const inside =
+      seconds === start ||
+      (end !== null ? seconds < end : seconds - start <= 60);
+
+    if (inside) {
+      match = start;
+    }
+  }
+
+  return match;
+};
@@ -0,0 +1,11 @@
+import crypto from "crypto";
+
+// Generate a random URL-safe token for one-time links
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString("hex");
+};
+
+// Hash a token before persisting it so a database leak can't be replayed
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};